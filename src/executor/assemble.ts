@@ -2,7 +2,16 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { SettingsProvider } from '../provider/settingsProvider';
-import { gatherIncludeDirsUnix } from '../utils/compilerUtils';
+import { parseArgumentList } from '../utils/commandUtils';
+import {
+  gatherIncludeDirsMsvc,
+  gatherIncludeDirsUnix,
+  getBuildModeArgsMsvc,
+  getBuildModeArgsUnix,
+  getDefineArgsMsvc,
+  getDefineArgsUnix,
+  getToolchainArgsUnix,
+} from '../utils/compilerUtils';
 import {
   getAllSourceFilesInDir,
   isCppSourceFile,
@@ -10,49 +19,45 @@ import {
   mkdirRecursive,
   pathExists,
 } from '../utils/fileUtils';
-import { Builds, Languages, OperatingSystems } from '../utils/types';
-import { getProcessExecution } from '../utils/vscodeUtils';
+import { getMsvcEnvironment, getPkgConfigFlags } from '../utils/systemUtils';
+import { BuildJob, Command, Languages, OperatingSystems } from '../utils/types';
+import { BuildEngine } from './buildEngine';
 
 const EXTENSION_NAME = 'C_Cpp_Runner';
 
 export async function generateAssemblerCode(
   settingsProvider: SettingsProvider,
   activeFolder: string,
-  buildMode: Builds,
+  buildMode: string,
   singleFileBuild: boolean,
 ) {
-  const appendSymbol = '&&';
-
   const { files: files, language: language } = getAllSourceFilesInDir(
     activeFolder,
     singleFileBuild,
   );
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
 
   if (!pathExists(modeDir)) {
     mkdirRecursive(modeDir);
   }
 
   const operatingSystem = settingsProvider.operatingSystem;
+  const isMsvcBuild =
+    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc;
 
-  let commandLine: string | undefined;
-  if (
-    operatingSystem === OperatingSystems.windows &&
-    settingsProvider.useMsvc
-  ) {
-    commandLine = generateAssemblerMsvcBased(
+  let jobs: BuildJob[];
+  if (isMsvcBuild) {
+    jobs = generateAssemblerMsvcBased(
       settingsProvider,
       activeFolder,
       buildMode,
       language,
       files,
       modeDir,
-      appendSymbol,
     );
   } else {
-    commandLine = generateAssemblerUnixBased(
+    jobs = await generateAssemblerUnixBased(
       settingsProvider,
       activeFolder,
       buildMode,
@@ -62,7 +67,7 @@ export async function generateAssemblerCode(
     );
   }
 
-  if (!commandLine) return;
+  if (jobs.length === 0) return;
 
   const task_name = 'Build';
 
@@ -71,17 +76,34 @@ export async function generateAssemblerCode(
     task: task_name,
   };
 
-  const execution = getProcessExecution(
-    operatingSystem,
-    settingsProvider.useMsvc,
-    commandLine,
-    activeFolder,
-  );
+  const plan = {
+    precompileJob: undefined,
+    compileJobs: jobs,
+    linkJob: undefined,
+    targetPath: modeDir,
+  };
 
-  const problemMatcher =
-    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc
-      ? ['$msCompile']
-      : ['$gcc'];
+  const execution = new vscode.CustomExecution(async () => {
+    const env = isMsvcBuild
+      ? await getMsvcEnvironment(
+          settingsProvider.msvcBatchPath,
+          settingsProvider.architecture,
+        )
+      : undefined;
+
+    return new BuildEngine(plan, {
+      cwd: activeFolder,
+      env: env,
+      jobs: settingsProvider.parallelJobs,
+      operatingSystem: operatingSystem,
+      compilerLauncher: undefined,
+      outputParser: undefined,
+      onLinkFailed: undefined,
+      onDidFinish: undefined,
+    });
+  });
+
+  const problemMatcher = isMsvcBuild ? ['$msCompile'] : ['$gcc'];
 
   const task = new vscode.Task(
     definition,
@@ -95,104 +117,98 @@ export async function generateAssemblerCode(
   await vscode.tasks.executeTask(task);
 }
 
-function generateAssemblerUnixBased(
-  settingsProvider: SettingsProvider,
-  activeFolder: string,
-  buildMode: Builds,
-  language: Languages,
-  files: string[],
-  modeDir: string,
-) {
-  let compiler: string | undefined;
-  let standard: string | undefined;
+function isSourceFileOfLanguage(file: string, language: Languages) {
+  const fileExtension = path.parse(file).ext;
 
-  if (language === Languages.cpp) {
-    compiler = settingsProvider.cppCompilerPath.replace('.exe', '');
-    standard = settingsProvider.cppStandard;
-  } else {
-    compiler = settingsProvider.cCompilerPath.replace('.exe', '');
-    standard = settingsProvider.cStandard;
-  }
+  if (language === Languages.c) return isCSourceFile(fileExtension);
+
+  return isCppSourceFile(fileExtension);
+}
 
-  const includePaths = settingsProvider.includePaths;
-  const compilerArgs = settingsProvider.compilerArgs;
+export async function getSingleFileCommandUnix(
+  settingsProvider: SettingsProvider,
+  buildMode: string,
+  language: Languages,
+): Promise<Command> {
+  const compiler = settingsProvider
+    .getCompilerPath(language)
+    .replace('.exe', '');
+  const standard =
+    language === Languages.cpp
+      ? settingsProvider.cppStandard
+      : settingsProvider.cStandard;
 
-  let fullCompilerArgs = '';
+  const args = getToolchainArgsUnix(settingsProvider.getToolchain(), compiler);
 
   if (standard) {
-    fullCompilerArgs += ` --std=${standard}`;
-  }
-  if (buildMode === Builds.debug) {
-    fullCompilerArgs += ' -g3 -O0';
-  } else {
-    fullCompilerArgs += ' -O3 -DNDEBUG';
+    args.push(`--std=${standard}`);
   }
-  if (compilerArgs && compilerArgs.length > 0 && !settingsProvider.useMsvc) {
-    fullCompilerArgs += ' ' + compilerArgs.join(' ');
+  args.push(...getDefineArgsUnix(settingsProvider.defines));
+  args.push(...getBuildModeArgsUnix(settingsProvider.getBuildMode(buildMode)));
+  if (!settingsProvider.useMsvc) {
+    args.push(...parseArgumentList(settingsProvider.compilerArgs));
   }
 
-  fullCompilerArgs += gatherIncludeDirsUnix(includePaths);
-
-  const assemblerFiles: string[] = [];
-  const fullFileArgs: string[] = [];
+  args.push(...gatherIncludeDirsUnix(settingsProvider.includePaths));
 
-  for (const file of files) {
-    const fileExtension = path.parse(file).ext;
-
-    if (language === Languages.c && !isCSourceFile(fileExtension)) {
-      continue;
-    } else if (language === Languages.cpp && !isCppSourceFile(fileExtension)) {
-      continue;
-    }
-
-    const hasSpace = file.includes(' ');
-    const fileBaseName = path.parse(file).name.replace(' ', '');
-    modeDir = modeDir.replace(activeFolder, '');
-
-    let assemblerFilePath = path.join(modeDir, fileBaseName + '.s');
-    if (!assemblerFilePath.startsWith('.')) {
-      assemblerFilePath = '.' + assemblerFilePath;
-    }
-
-    let fullFileArg;
-    if (hasSpace) {
-      fullFileArg = `-S -o ${assemblerFilePath} '${file}'`;
-    } else {
-      fullFileArg = `-S -o ${assemblerFilePath} ${file}`;
-    }
-
-    assemblerFiles.push(assemblerFilePath);
-    fullFileArgs.push(fullFileArg);
-  }
+  const pkgConfigArgs = await getPkgConfigFlags(
+    settingsProvider.pkgConfigPackages,
+    settingsProvider.getToolchain()?.sysroot,
+  );
+  if (pkgConfigArgs) args.push(...pkgConfigArgs.compilerArgs);
 
-  return ` ${compiler} ${fullCompilerArgs} ${fullFileArgs}`;
+  return { program: compiler, args: args };
 }
 
-function generateAssemblerMsvcBased(
+async function generateAssemblerUnixBased(
   settingsProvider: SettingsProvider,
   activeFolder: string,
-  buildMode: Builds,
+  buildMode: string,
   language: Languages,
   files: string[],
   modeDir: string,
-  appendSymbol: string,
-) {
-  let compiler: string | undefined;
-  let standard: string | undefined;
-  let hadSpaces = false;
+): Promise<BuildJob[]> {
+  const assemblerFiles = files.filter((file) =>
+    isSourceFileOfLanguage(file, language),
+  );
 
-  if (language === Languages.cpp) {
-    compiler = SettingsProvider.MSVC_COMPILER_NAME;
-    standard = settingsProvider.cppStandard;
-  } else {
-    compiler = SettingsProvider.MSVC_COMPILER_NAME;
-    standard = settingsProvider.cStandard;
-  }
+  if (assemblerFiles.length === 0) return [];
 
-  const includePaths = settingsProvider.includePaths;
-  const compilerArgs = settingsProvider.compilerArgs;
+  const command = await getSingleFileCommandUnix(
+    settingsProvider,
+    buildMode,
+    language,
+  );
 
-  let fullCompilerArgs = '';
+  // Note: The compiler only accepts one input file together with -S -o
+  return assemblerFiles.map((file) => {
+    const fileBaseName = path.parse(file).name.replace(' ', '');
+    const assemblerFilePath = path.relative(
+      activeFolder,
+      path.join(modeDir, fileBaseName + '.s'),
+    );
+
+    return {
+      name: path.relative(activeFolder, file),
+      command: {
+        program: command.program,
+        args: [...command.args, '-S', '-o', assemblerFilePath, file],
+      },
+    };
+  });
+}
+
+export function getSingleFileArgsMsvc(
+  settingsProvider: SettingsProvider,
+  buildMode: string,
+  language: Languages,
+) {
+  const standard =
+    language === Languages.cpp
+      ? settingsProvider.cppStandard
+      : settingsProvider.cStandard;
+
+  const args: string[] = [];
 
   // Note: The c standard in msvc is either c11 or newer
   const old_standard = ['c89', 'c99', 'gnu89', 'gnu99'].some(
@@ -200,77 +216,57 @@ function generateAssemblerMsvcBased(
   );
 
   if (standard && (language === Languages.cpp || !old_standard)) {
-    fullCompilerArgs += ` /std:${standard}`;
-  }
-  if (language === Languages.c) {
-    if (old_standard) {
-      fullCompilerArgs += ' /D_CRT_SECURE_NO_WARNINGS';
-    }
+    args.push(`/std:${standard}`);
   }
-
-  if (buildMode === Builds.debug) {
-    fullCompilerArgs += ' /Od /Zi';
-  } else {
-    fullCompilerArgs += ' /Ox /GL /DNDEBUG';
+  if (language === Languages.c && old_standard) {
+    args.push('/D_CRT_SECURE_NO_WARNINGS');
   }
-  fullCompilerArgs += ' /EHsc';
 
-  if (includePaths && includePaths.length > 0) {
-    for (const includePath of includePaths) {
-      if (includePath.includes('$(default)')) continue;
+  args.push(...getDefineArgsMsvc(settingsProvider.defines));
+  args.push(...getBuildModeArgsMsvc(settingsProvider.getBuildMode(buildMode)));
+  args.push('/EHsc');
 
-      const hasSpace = includePath.includes(' ');
-
-      if (hasSpace) {
-        fullCompilerArgs += ` /I"${includePath}"`;
-      } else {
-        fullCompilerArgs += ` /I${includePath}`;
-      }
-    }
-  }
-
-  if (compilerArgs && compilerArgs.length > 0) {
-    fullCompilerArgs += ' ' + compilerArgs.join(' ');
-  }
+  args.push(...gatherIncludeDirsMsvc(settingsProvider.includePaths));
+  args.push(...parseArgumentList(settingsProvider.compilerArgs));
 
-  let commandLine: string = `"${settingsProvider.msvcBatchPath}" ${settingsProvider.architecture} ${appendSymbol} `;
-
-  modeDir = modeDir.replace(activeFolder, '.');
-  const executablePath = activeFolder + 'main.exe';
-  const pathArgs = `/Fa${modeDir}\\ /Fd${modeDir}\\ /Fo${modeDir}\\ /Fe${executablePath}`;
-
-  const assemblerFiles: string[] = [];
-
-  let fullFileArgs: string = '';
-  for (const file of files) {
-    const fileExtension = path.parse(file).ext;
+  return args;
+}
 
-    if (language === Languages.c && !isCSourceFile(fileExtension)) {
-      continue;
-    } else if (language === Languages.cpp && !isCppSourceFile(fileExtension)) {
-      continue;
-    }
+function generateAssemblerMsvcBased(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  language: Languages,
+  files: string[],
+  modeDir: string,
+): BuildJob[] {
+  const assemblerFiles = files.filter((file) =>
+    isSourceFileOfLanguage(file, language),
+  );
 
-    assemblerFiles.push(file);
+  if (assemblerFiles.length === 0) return [];
 
-    const hasSpace = file.includes(' ');
+  const args = getSingleFileArgsMsvc(settingsProvider, buildMode, language);
 
-    if (hasSpace) {
-      fullFileArgs += ` "${file}"`;
-      hadSpaces = true;
-    } else {
-      fullFileArgs += ` ${file}`;
-    }
+  let relativeModeDir = path.relative(activeFolder, modeDir);
+  if (!relativeModeDir.startsWith('.')) {
+    relativeModeDir = `.\\${relativeModeDir}`;
   }
 
-  if (fullFileArgs === '') return;
-
-  commandLine += ` cd ${activeFolder} &&`;
-  commandLine += `${compiler} ${fullCompilerArgs} ${pathArgs} ${fullFileArgs}`;
-
-  if (hadSpaces) {
-    commandLine = `"${commandLine}"`;
-  }
+  args.push(
+    '/c',
+    `/Fa${relativeModeDir}\\`,
+    `/Fd${relativeModeDir}\\`,
+    `/Fo${relativeModeDir}\\`,
+    ...assemblerFiles,
+  );
 
-  return commandLine;
+  return [
+    {
+      name: assemblerFiles
+        .map((file) => path.relative(activeFolder, file))
+        .join(', '),
+      command: { program: SettingsProvider.MSVC_COMPILER_NAME, args: args },
+    },
+  ];
 }
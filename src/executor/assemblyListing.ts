@@ -0,0 +1,95 @@
+import * as path from 'path';
+
+import { SettingsProvider } from '../provider/settingsProvider';
+import {
+  demangleSymbols,
+  parseAssemblyOutput,
+  parseMsvcAssemblyListing,
+} from '../utils/assemblyUtils';
+import {
+  getLanguage,
+  isCppSourceFile,
+  isCSourceFile,
+  mkdirRecursive,
+  pathExists,
+  readFile,
+} from '../utils/fileUtils';
+import { getMsvcEnvironment } from '../utils/systemUtils';
+import { Languages, OperatingSystems } from '../utils/types';
+import { getCommandOutput } from '../utils/vscodeUtils';
+import { getSingleFileArgsMsvc, getSingleFileCommandUnix } from './assemble';
+
+export async function generateAssemblyListing(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  file: string,
+) {
+  const fileExtension = path.extname(file);
+  let language = getLanguage(activeFolder);
+  if (isCSourceFile(fileExtension)) language = Languages.c;
+  if (isCppSourceFile(fileExtension)) language = Languages.cpp;
+
+  const operatingSystem = settingsProvider.operatingSystem;
+  const isMsvcBuild =
+    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc;
+
+  if (!isMsvcBuild) {
+    const command = await getSingleFileCommandUnix(
+      settingsProvider,
+      buildMode,
+      language,
+    );
+
+    // Note: The debug info adds the .loc directives but keeps the code as is
+    command.args.push('-g', '-S', '-o', '-', file);
+
+    const output = await getCommandOutput(
+      command,
+      activeFolder,
+      'Generating the assembly failed',
+    );
+    if (output === undefined) return;
+
+    const document = parseAssemblyOutput(output, file, activeFolder);
+
+    if (language === Languages.cpp) {
+      document.content = await demangleSymbols(document.content);
+    }
+
+    return document;
+  }
+
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
+  if (!pathExists(modeDir)) mkdirRecursive(modeDir);
+
+  const env = await getMsvcEnvironment(
+    settingsProvider.msvcBatchPath,
+    settingsProvider.architecture,
+  );
+  const listingFile = path.join(modeDir, path.parse(file).name + '.asm');
+
+  const args = getSingleFileArgsMsvc(settingsProvider, buildMode, language);
+  args.push(
+    '/c',
+    '/FAs',
+    `/Fa${listingFile}`,
+    `/Fo${path.join(modeDir, path.parse(file).name + '.obj')}`,
+    `/Fd${modeDir}\\`,
+    file,
+  );
+
+  const command = { program: SettingsProvider.MSVC_COMPILER_NAME, args: args };
+  const result = await getCommandOutput(
+    command,
+    activeFolder,
+    'Generating the assembly failed',
+    env,
+  );
+  if (result === undefined) return;
+
+  const output = readFile(listingFile);
+  if (output === undefined) return;
+
+  return parseMsvcAssemblyListing(output);
+}
@@ -0,0 +1,258 @@
+import { ChildProcess, spawn } from 'child_process';
+import { cpus } from 'os';
+import * as vscode from 'vscode';
+
+import { joinCommandLine } from '../utils/commandUtils';
+import {
+  countDiagnostics,
+  removePragmaOnceWarnings,
+} from '../utils/diagnosticUtils';
+import {
+  BuildJob,
+  BuildPlan,
+  BuildResult,
+  OperatingSystems,
+} from '../utils/types';
+
+export interface BuildEngineOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv | undefined;
+  jobs: number;
+  operatingSystem: OperatingSystems;
+  compilerLauncher: string | undefined;
+  outputParser: ((output: string, job: BuildJob) => string) | undefined;
+  onLinkFailed: ((output: string) => void) | undefined;
+  onDidFinish: ((result: BuildResult) => void) | undefined;
+}
+
+export class BuildEngine implements vscode.Pseudoterminal {
+  private _writeEmitter = new vscode.EventEmitter<string>();
+  private _closeEmitter = new vscode.EventEmitter<number>();
+  private _processes = new Set<ChildProcess>();
+  private _isClosed = false;
+  private _startTime = 0;
+  private _warnings = 0;
+  private _errors = 0;
+  private _commandLines: string[] = [];
+
+  public onDidWrite: vscode.Event<string>;
+  public onDidClose: vscode.Event<number>;
+
+  constructor(private plan: BuildPlan, private options: BuildEngineOptions) {
+    this.onDidWrite = this._writeEmitter.event;
+    this.onDidClose = this._closeEmitter.event;
+  }
+
+  public open() {
+    this.build();
+  }
+
+  public close() {
+    this._isClosed = true;
+    this._processes.forEach((childProcess) => childProcess.kill());
+    this._processes.clear();
+  }
+
+  private async build() {
+    const { precompileJob, compileJobs, linkJob, targetPath } = this.plan;
+
+    this._startTime = Date.now();
+
+    if (!precompileJob && compileJobs.length === 0 && !linkJob) {
+      this.writeLine(`Nothing to build, ${targetPath} is up to date.`);
+      this.exit(0);
+      return;
+    }
+
+    if (precompileJob) {
+      this.addCommandLine(precompileJob);
+      const exitCode = await this.runJob(
+        this.withLauncher(precompileJob),
+        `Precompiling ${precompileJob.name}`,
+        undefined,
+        removePragmaOnceWarnings,
+      );
+
+      if (this._isClosed) return;
+
+      if (exitCode !== 0) {
+        this.writeLine(`Precompilation failed for: ${precompileJob.name}`);
+        this.exit(1);
+        return;
+      }
+    }
+
+    const failedJobs = await this.compile(compileJobs);
+
+    if (this._isClosed) return;
+
+    if (precompileJob || compileJobs.length > 0) {
+      await this.showLauncherStatistics();
+
+      if (this._isClosed) return;
+    }
+
+    if (failedJobs.length > 0) {
+      const failedNames = failedJobs.map((job) => job.name).join(', ');
+      this.writeLine(`Compilation failed for: ${failedNames}`);
+      this.exit(1);
+      return;
+    }
+
+    if (!linkJob) {
+      this.exit(0);
+      return;
+    }
+
+    this.writeLine(`Linking ${linkJob.name}`);
+    this.addCommandLine(linkJob);
+    let linkOutput = '';
+    const exitCode = await this.runJob(
+      linkJob,
+      undefined,
+      (output) => (linkOutput = output),
+    );
+
+    if (exitCode !== 0) this.options.onLinkFailed?.(linkOutput);
+
+    this.exit(exitCode);
+  }
+
+  private withLauncher(job: BuildJob) {
+    const compilerLauncher = this.options.compilerLauncher;
+
+    if (!compilerLauncher) return job;
+
+    return {
+      name: job.name,
+      command: {
+        program: compilerLauncher,
+        args: [job.command.program, ...job.command.args],
+      },
+    };
+  }
+
+  private addCommandLine(job: BuildJob) {
+    this._commandLines.push(
+      joinCommandLine(job.command, this.options.operatingSystem),
+    );
+  }
+
+  private async showLauncherStatistics() {
+    const compilerLauncher = this.options.compilerLauncher;
+
+    if (!compilerLauncher) return;
+
+    // Note: ccache and sccache both print their hit statistics with this flag
+    await this.runJob(
+      {
+        name: compilerLauncher,
+        command: { program: compilerLauncher, args: ['--show-stats'] },
+      },
+      `Compiler cache statistics (${compilerLauncher}):`,
+    );
+  }
+
+  private async compile(compileJobs: BuildJob[]) {
+    const failedJobs: BuildJob[] = [];
+    const numJobs = this.options.jobs > 0 ? this.options.jobs : cpus().length;
+
+    let nextJobIdx = 0;
+    const worker = async () => {
+      while (nextJobIdx < compileJobs.length && !this._isClosed) {
+        const jobIdx = nextJobIdx++;
+        const job = compileJobs[jobIdx] as BuildJob;
+        this.addCommandLine(job);
+
+        const exitCode = await this.runJob(
+          this.withLauncher(job),
+          `[${jobIdx + 1}/${compileJobs.length}] Compiling ${job.name}`,
+        );
+        if (exitCode !== 0) failedJobs.push(job);
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(numJobs, compileJobs.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    return failedJobs;
+  }
+
+  private runJob(
+    job: BuildJob,
+    header?: string,
+    onOutput?: (output: string) => void,
+    outputFilter?: (output: string) => string,
+  ) {
+    return new Promise<number>((resolve) => {
+      // Note: The arguments are passed without a shell, so no quoting is needed
+      const childProcess = spawn(job.command.program, job.command.args, {
+        cwd: this.options.cwd,
+        env: this.options.env ? this.options.env : process.env,
+      });
+      this._processes.add(childProcess);
+
+      // Note: Buffer the output so that parallel jobs do not interleave
+      let output = '';
+      childProcess.stdout?.on('data', (data) => (output += data));
+      childProcess.stderr?.on('data', (data) => (output += data));
+
+      let isFinished = false;
+      const finish = (exitCode: number) => {
+        if (isFinished) return;
+
+        isFinished = true;
+        this._processes.delete(childProcess);
+        onOutput?.(output);
+
+        const jobOutput = outputFilter ? outputFilter(output) : output;
+        const text = this.options.outputParser
+          ? this.options.outputParser(jobOutput, job)
+          : jobOutput;
+
+        const { warnings, errors } = countDiagnostics(text);
+        this._warnings += warnings;
+        this._errors += errors;
+
+        if (header) this.writeLine(header);
+        this.write(text);
+        resolve(exitCode);
+      };
+
+      childProcess.on('error', (err) => {
+        output += `${err.message}\n`;
+        finish(1);
+      });
+      childProcess.on('close', (exitCode) =>
+        finish(exitCode !== null ? exitCode : 1),
+      );
+    });
+  }
+
+  private write(text: string) {
+    if (this._isClosed || !text) return;
+
+    this._writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+  }
+
+  private writeLine(text: string) {
+    this.write(`${text}\n`);
+  }
+
+  private exit(exitCode: number) {
+    if (this._isClosed) return;
+
+    this.options.onDidFinish?.({
+      exitCode: exitCode,
+      duration: Date.now() - this._startTime,
+      warnings: this._warnings,
+      errors: this._errors,
+      commandLines: this._commandLines,
+    });
+
+    this._closeEmitter.fire(exitCode);
+  }
+}
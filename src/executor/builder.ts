@@ -1,88 +1,148 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+import { DiagnosticsProvider } from '../provider/diagnosticsProvider';
 import { SettingsProvider } from '../provider/settingsProvider';
+import { SANITIZERS } from '../utils/capabilityUtils';
+import { parseArgumentList } from '../utils/commandUtils';
 import {
   gatherIncludeDirsMsvc,
   gatherIncludeDirsUnix,
-  GetWildcardPatterns,
+  getBuildModeArgsMsvc,
+  getBuildModeArgsUnix,
+  getDefineArgsMsvc,
+  getDefineArgsUnix,
+  getDiagnosticsFormatArgs,
+  getSanitizerArgsMsvc,
+  getSanitizerArgsUnix,
+  getToolchainArgsUnix,
 } from '../utils/compilerUtils';
+import {
+  getBuildCacheChanges,
+  isObjectFileStale,
+  isTargetStale,
+  updateBuildCache,
+} from '../utils/dependencyUtils';
+import {
+  formatDiagnostic,
+  parseStructuredDiagnostics,
+} from '../utils/diagnosticUtils';
 import {
   getAllSourceFilesInDir,
+  getLanguage,
+  getRelativePath,
   isCppSourceFile,
-  isCSourceFile,
+  isSourceFile,
   mkdirRecursive,
   pathExists,
+  readFile,
+  readJsonFile,
+  replaceBackslashes,
+  rmFile,
+  writeFile,
+  writeJsonFile,
 } from '../utils/fileUtils';
-import { Builds, Languages, OperatingSystems } from '../utils/types';
-import { getProcessExecution } from '../utils/vscodeUtils';
+import {
+  getIncludedLibraryFlags,
+  getMissingLibraries,
+} from '../utils/libraryUtils';
+import {
+  commandExists,
+  getMsvcEnvironment,
+  getPkgConfigFlags,
+  getPkgConfigKey,
+} from '../utils/systemUtils';
+import {
+  BuildCommands,
+  BuildHistoryEntry,
+  BuildJob,
+  BuildPlan,
+  Command,
+  CompileJob,
+  JsonCompileCommand,
+  Languages,
+  OperatingSystems,
+  OutputTypes,
+} from '../utils/types';
+import { BuildEngine } from './buildEngine';
 
 const EXTENSION_NAME = 'C_Cpp_Runner';
+const UNIX_ARCHIVER = 'ar';
+const MSVC_ARCHIVER = 'lib.exe';
+const COMPILER_LAUNCHERS = ['ccache', 'sccache'];
 
-const LOWER_LIMIT_WILDARD_COMPILE = 7;
+let lastPkgConfigWarning: string | undefined;
+let lastCapabilityWarning: string | undefined;
 
 export async function executeBuildTask(
   settingsProvider: SettingsProvider,
   activeFolder: string,
-  buildMode: Builds,
+  buildMode: string,
   singleFileBuild: boolean,
+  diagnosticsProvider?: DiagnosticsProvider,
+  onBuildFinished?: (entry: BuildHistoryEntry) => void,
 ) {
-  const appendSymbol = '&&';
+  await warnUnsupportedSettings(settingsProvider, activeFolder, buildMode);
+  await warnUnresolvedPackages(settingsProvider);
 
-  const { files: files, language: language } = getAllSourceFilesInDir(
+  const buildCommands = await getBuildCommands(
+    settingsProvider,
     activeFolder,
+    buildMode,
     singleFileBuild,
   );
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
+  if (!buildCommands) return;
 
-  if (!pathExists(modeDir)) {
-    mkdirRecursive(modeDir);
-  }
+  writeCompileCommands(
+    settingsProvider,
+    activeFolder,
+    buildCommands,
+    singleFileBuild,
+  );
 
   const operatingSystem = settingsProvider.operatingSystem;
+  const isMsvcBuild =
+    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc;
 
-  let executableName: string;
-  if (operatingSystem === OperatingSystems.windows) {
-    executableName = `out${buildMode}.exe`;
-  } else {
-    executableName = `out${buildMode}`;
-  }
+  const useStructuredDiagnostics =
+    settingsProvider.useStructuredDiagnostics &&
+    !isMsvcBuild &&
+    diagnosticsProvider !== undefined;
 
-  const executablePath = path.join(modeDir, executableName);
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
+  const plan = getBuildPlan(
+    activeFolder,
+    modeDir,
+    useStructuredDiagnostics
+      ? addDiagnosticsFormat(buildCommands)
+      : buildCommands,
+  );
 
-  let commandLine: string | undefined;
-  if (
-    operatingSystem === OperatingSystems.windows &&
-    settingsProvider.useMsvc
-  ) {
-    commandLine = executeBuildTaskMsvcBased(
-      settingsProvider,
-      activeFolder,
-      buildMode,
-      language,
-      files,
-      modeDir,
-      appendSymbol,
-      executablePath,
-      singleFileBuild,
-    );
-  } else {
-    commandLine = executeBuildTaskUnixBased(
-      settingsProvider,
-      activeFolder,
-      buildMode,
-      language,
-      files,
-      modeDir,
-      appendSymbol,
-      executablePath,
-      singleFileBuild,
-    );
-  }
+  // Note: The diagnostics are kept per job, i.e. per translation unit
+  const getUnit = (job: BuildJob) => path.resolve(activeFolder, job.name);
+  const plannedUnits = getJobs(plan).map(getUnit);
+  diagnosticsProvider?.clear(
+    getJobs(buildCommands)
+      .map(getUnit)
+      .filter((unit) => !plannedUnits.includes(unit)),
+  );
 
-  if (!commandLine) return;
+  const outputParser = useStructuredDiagnostics
+    ? (output: string, job: BuildJob) => {
+        const { diagnostics, text } = parseStructuredDiagnostics(
+          output,
+          activeFolder,
+        );
+        diagnosticsProvider?.publish(getUnit(job), diagnostics);
+
+        return diagnostics.map(formatDiagnostic).join('') + text;
+      }
+    : undefined;
+
+  const compilerLauncher = isMsvcBuild
+    ? undefined
+    : await getCompilerLauncher(settingsProvider);
 
   const task_name = 'Build';
 
@@ -91,17 +151,45 @@ export async function executeBuildTask(
     task: task_name,
   };
 
-  const execution = getProcessExecution(
-    operatingSystem,
-    settingsProvider.useMsvc,
-    commandLine,
-    activeFolder,
-  );
-
-  const problemMatcher =
-    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc
-      ? ['$msCompile']
-      : ['$gcc'];
+  const execution = new vscode.CustomExecution(async () => {
+    const env = isMsvcBuild
+      ? await getMsvcEnvironment(
+          settingsProvider.msvcBatchPath,
+          settingsProvider.architecture,
+        )
+      : undefined;
+
+    return new BuildEngine(plan, {
+      cwd: activeFolder,
+      env: env,
+      jobs: settingsProvider.parallelJobs,
+      operatingSystem: operatingSystem,
+      compilerLauncher: compilerLauncher,
+      outputParser: outputParser,
+      onLinkFailed: isMsvcBuild
+        ? undefined
+        : (output) => promptMissingLibraries(settingsProvider, output),
+      onDidFinish: (result) => {
+        // Note: Up to date builds are not recorded in the history
+        if (result.commandLines.length === 0) return;
+
+        onBuildFinished?.({
+          folder: activeFolder,
+          timestamp: Date.now(),
+          mode: buildMode,
+          duration: result.duration,
+          warnings: result.warnings,
+          errors: result.errors,
+          exitCode: result.exitCode,
+          commandLine: result.commandLines.join('\n'),
+        });
+      },
+    });
+  });
+
+  // Note: Structured diagnostics are published without a problem matcher
+  let problemMatcher: string[] = isMsvcBuild ? ['$msCompile'] : ['$gcc'];
+  if (useStructuredDiagnostics) problemMatcher = [];
 
   const task = new vscode.Task(
     definition,
@@ -112,315 +200,990 @@ export async function executeBuildTask(
     problemMatcher,
   );
 
-  await vscode.tasks.executeTask(task);
+  return vscode.tasks.executeTask(task);
 }
 
-function executeBuildTaskUnixBased(
+export async function generateCompileCommands(
   settingsProvider: SettingsProvider,
   activeFolder: string,
-  buildMode: Builds,
-  language: Languages,
-  files: string[],
-  modeDir: string,
-  appendSymbol: string,
-  executablePath: string,
-  singleFileBuild: boolean,
+  buildMode: string,
 ) {
-  let compiler: string | undefined;
-  let standard: string | undefined;
+  await warnUnresolvedPackages(settingsProvider);
 
-  if (language === Languages.cpp) {
-    compiler = settingsProvider.cppCompilerPath.replace('.exe', '');
-    standard = settingsProvider.cppStandard;
-  } else {
-    compiler = settingsProvider.cCompilerPath.replace('.exe', '');
-    standard = settingsProvider.cStandard;
-  }
+  const buildCommands = await getBuildCommands(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    false,
+  );
 
-  const useWarnings = settingsProvider.enableWarnings;
-  const warningsAsErrors = settingsProvider.warningsAsError;
+  if (!buildCommands) return;
 
-  let warnings: string = '';
-  if (useWarnings) {
-    warnings = settingsProvider.warnings.join(' ');
-  }
-  if (warningsAsErrors) {
-    warnings += ' -Werror';
-  }
-  const includePaths = settingsProvider.includePaths;
-  const compilerArgs = settingsProvider.compilerArgs;
-  const linkerArgs = settingsProvider.linkerArgs;
+  return writeCompileCommands(
+    settingsProvider,
+    activeFolder,
+    buildCommands,
+    false,
+  );
+}
 
-  let fullCompilerArgs = warnings;
-  let fullLinkerArgs = '';
+async function getCompilerLauncher(settingsProvider: SettingsProvider) {
+  const compilerLauncher = settingsProvider.compilerLauncher;
 
-  const useAddressSanitizer = settingsProvider.useAddressSanitizer;
-  if (useAddressSanitizer && buildMode === Builds.debug) {
-    fullCompilerArgs += ' -fsanitize=address';
-  }
-  const useUndefinedSanitizer = settingsProvider.useUndefinedSanitizer;
-  if (useUndefinedSanitizer && buildMode === Builds.debug) {
-    fullCompilerArgs += ' -fsanitize=undefined';
-  }
-  const useLeakSanitizer = settingsProvider.useLeakSanitizer;
-  if (useLeakSanitizer && buildMode === Builds.debug) {
-    fullCompilerArgs += ' -fsanitize=leak';
-  }
+  if (!compilerLauncher || compilerLauncher === 'none') return;
 
-  const showCompilationTime = settingsProvider.showCompilationTime;
-  if (showCompilationTime) {
-    fullCompilerArgs += ' -ftime-report';
+  if (compilerLauncher !== 'auto') {
+    return compilerLauncher;
   }
 
-  if (standard) {
-    fullCompilerArgs += ` --std=${standard}`;
-  }
-  if (buildMode === Builds.debug) {
-    fullCompilerArgs += ' -g3 -O0';
-  } else {
-    fullCompilerArgs += ' -O3 -DNDEBUG';
-  }
-  if (compilerArgs && compilerArgs.length > 0 && !settingsProvider.useMsvc) {
-    fullCompilerArgs += ' ' + compilerArgs.join(' ');
+  for (const launcher of COMPILER_LAUNCHERS) {
+    const { f: launcherFound } = await commandExists(launcher);
+    if (launcherFound) return launcher;
   }
 
-  fullCompilerArgs += gatherIncludeDirsUnix(includePaths);
+  return;
+}
+
+function addDiagnosticsFormat(buildCommands: BuildCommands): BuildCommands {
+  // Note: The program of a job is the compiler of its language and toolchain
+  const withDiagnosticsFormat = (job: CompileJob) => ({
+    ...job,
+    command: {
+      program: job.command.program,
+      args: [
+        ...job.command.args,
+        ...getDiagnosticsFormatArgs(job.command.program),
+      ],
+    },
+  });
+
+  return {
+    ...buildCommands,
+    precompileJob: buildCommands.precompileJob
+      ? withDiagnosticsFormat(buildCommands.precompileJob)
+      : undefined,
+    compileJobs: buildCommands.compileJobs.map(withDiagnosticsFormat),
+  };
+}
+
+async function getBuildCommands(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  singleFileBuild: boolean,
+) {
+  const searchPatterns = settingsProvider.useRecursiveBuild
+    ? {
+        includeSearch: settingsProvider.includeSearch,
+        excludeSearch: [
+          ...settingsProvider.excludeSearch,
+          ...SettingsProvider.DEFAULT_EXCLUDE_SEARCH,
+        ],
+      }
+    : undefined;
+
+  const { files: files } = getAllSourceFilesInDir(
+    activeFolder,
+    singleFileBuild,
+    searchPatterns,
+  );
+
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
 
-  if (linkerArgs && linkerArgs.length > 0 && !settingsProvider.useMsvc) {
-    fullLinkerArgs += ' ' + linkerArgs.join(' ');
+  const operatingSystem = settingsProvider.operatingSystem;
+  const isMsvcBuild =
+    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc;
+
+  const outputType = singleFileBuild
+    ? OutputTypes.executable
+    : settingsProvider.getOutputType(activeFolder);
+
+  const targetFile = settingsProvider.getTargetPath(
+    activeFolder,
+    buildMode,
+    outputType,
+  );
+
+  if (isMsvcBuild) {
+    return getBuildCommandsMsvcBased(
+      settingsProvider,
+      activeFolder,
+      buildMode,
+      files,
+      modeDir,
+      targetFile,
+      outputType,
+      singleFileBuild,
+    );
   }
 
-  let commandLine: string = '';
+  return getBuildCommandsUnixBased(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    files,
+    modeDir,
+    targetFile,
+    outputType,
+    singleFileBuild,
+  );
+}
 
-  const objectFiles: string[] = [];
-  const fullFileArgs: string[] = [];
+function getRelativeBuildPath(activeFolder: string, filepath: string) {
+  const relativePath = path.relative(activeFolder, filepath);
 
-  const useLto =
-    settingsProvider.useLinkTimeOptimization &&
-    buildMode === Builds.release &&
-    !singleFileBuild;
-  const ltoFlag = useLto ? '-flto' : '';
+  if (relativePath.startsWith('.')) return relativePath;
 
-  for (const file of files) {
-    const fileExtension = path.parse(file).ext;
+  return `.${path.sep}${relativePath}`;
+}
 
-    if (language === Languages.c && !isCSourceFile(fileExtension)) {
-      continue;
-    } else if (language === Languages.cpp && !isCppSourceFile(fileExtension)) {
-      continue;
-    }
+function getPrecompiledHeaderFile(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+) {
+  if (!settingsProvider.precompiledHeader) return;
 
-    const hasSpace = file.includes(' ');
-    const fileBaseName = path.parse(file).name.replace(' ', '');
-    modeDir = modeDir.replace(activeFolder, '');
+  const headerFile = path.resolve(
+    activeFolder,
+    settingsProvider.precompiledHeader,
+  );
 
-    let objectFilePath = path.join(modeDir, fileBaseName + '.o');
-    if (!objectFilePath.startsWith('.')) {
-      objectFilePath = '.' + objectFilePath;
-    }
+  if (!pathExists(headerFile)) return;
 
-    let fullFileArg;
-    if (hasSpace) {
-      fullFileArg = `${ltoFlag} -c '${file}' -o '${objectFilePath}'`;
-    } else {
-      fullFileArg = `${ltoFlag} -c ${file} -o ${objectFilePath}`;
-    }
+  return headerFile;
+}
 
-    objectFiles.push(objectFilePath);
-    fullFileArgs.push(fullFileArg);
-  }
+function getPrecompiledHeaderLanguage(
+  headerFile: string,
+  sourceFiles: string[],
+) {
+  // Note: A .h header is precompiled as C++ if the folder has C++ files
+  if (path.extname(headerFile).toLowerCase() !== '.h') return Languages.cpp;
 
-  let idx = 0;
-  if (objectFiles.length < LOWER_LIMIT_WILDARD_COMPILE) {
-    for (const fullFileArg of fullFileArgs) {
-      if (idx === 0) {
-        commandLine += `${compiler} ${fullCompilerArgs} ${fullFileArg}`;
-      } else {
-        commandLine += ` ${appendSymbol} ${compiler} ${fullCompilerArgs} ${fullFileArg}`;
-      }
-      idx++;
+  const hasCppFiles = sourceFiles.some((file) =>
+    isCppSourceFile(path.extname(file)),
+  );
+
+  return hasCppFiles ? Languages.cpp : Languages.c;
+}
+
+function isSourceFileOfLanguage(file: string, language: Languages) {
+  return isCppSourceFile(path.extname(file))
+    ? language === Languages.cpp
+    : language === Languages.c;
+}
+
+export async function isBuildStale(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  singleFileBuild: boolean,
+) {
+  const buildCommands = await getBuildCommands(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    singleFileBuild,
+  );
+
+  if (!buildCommands) return false;
+
+  const precompileJob = buildCommands.precompileJob;
+  const compileJobs = precompileJob
+    ? [precompileJob, ...buildCommands.compileJobs]
+    : buildCommands.compileJobs;
+
+  // Note: Changed settings are detected by the signatures of the commands
+  const { changedObjectFiles, linkChanged } = getBuildCacheChanges(
+    settingsProvider.getModeDir(activeFolder, buildMode),
+    compileJobs.map((job) => job.objectFile),
+    buildCommands.compileSignature,
+    buildCommands.targetFile,
+    buildCommands.linkSignature,
+  );
+
+  if (changedObjectFiles.length > 0 || linkChanged) return true;
+
+  const compileRequired = compileJobs.some(
+    (job) =>
+      isObjectFileStale(
+        job.objectFile,
+        job.sourceFile,
+        job.dependencyFile,
+        activeFolder,
+      ) ||
+      (job.precompiledHeader !== undefined &&
+        isTargetStale(job.objectFile, [job.precompiledHeader])),
+  );
+
+  if (compileRequired) return true;
+
+  return isTargetStale(
+    buildCommands.targetFile,
+    buildCommands.compileJobs.map((job) => job.objectFile),
+  );
+}
+
+function getBuildPlan(
+  activeFolder: string,
+  modeDir: string,
+  buildCommands: BuildCommands,
+): BuildPlan {
+  const precompileJob = buildCommands.precompileJob;
+  const objectFiles = buildCommands.compileJobs.map((job) => job.objectFile);
+  if (precompileJob) objectFiles.push(precompileJob.objectFile);
+
+  if (!pathExists(modeDir)) mkdirRecursive(modeDir);
+
+  const { changedObjectFiles, linkChanged } = updateBuildCache(
+    modeDir,
+    objectFiles,
+    buildCommands.compileSignature,
+    buildCommands.targetFile,
+    buildCommands.linkSignature,
+  );
+  changedObjectFiles.forEach((objectFile) => rmFile(objectFile));
+
+  const precompileRequired =
+    precompileJob !== undefined &&
+    isObjectFileStale(
+      precompileJob.objectFile,
+      precompileJob.sourceFile,
+      precompileJob.dependencyFile,
+      activeFolder,
+    );
+
+  const compileJobs = buildCommands.compileJobs.filter((job) => {
+    if (
+      job.precompiledHeader &&
+      (precompileRequired ||
+        isTargetStale(job.objectFile, [job.precompiledHeader]))
+    ) {
+      return true;
     }
-  }
 
-  // Exe task
-  let objectFilesStr: string = '';
-  for (const objectfile of objectFiles) {
-    if (objectfile.includes(' ')) objectFilesStr += ` "${objectfile}"`;
-    else objectFilesStr += ` ${objectfile}`;
+    return isObjectFileStale(
+      job.objectFile,
+      job.sourceFile,
+      job.dependencyFile,
+      activeFolder,
+    );
+  });
+
+  compileJobs.forEach((job) => mkdirRecursive(path.dirname(job.objectFile)));
+  if (precompileRequired) {
+    mkdirRecursive(path.dirname(precompileJob.objectFile));
+    writeStubFile(precompileJob);
   }
 
-  if (objectFilesStr === '') return;
+  if (linkChanged) rmFile(buildCommands.targetFile);
+
+  const linkRequired =
+    compileJobs.length > 0 ||
+    isTargetStale(
+      buildCommands.targetFile,
+      buildCommands.compileJobs.map((job) => job.objectFile),
+    );
+
+  return {
+    precompileJob: precompileRequired ? precompileJob : undefined,
+    compileJobs: compileJobs,
+    linkJob: linkRequired ? buildCommands.linkJob : undefined,
+    targetPath: buildCommands.targetPath,
+  };
+}
 
-  executablePath = executablePath.replace(activeFolder, '');
-  if (!executablePath.startsWith('.')) {
-    executablePath = '.' + executablePath;
+function getJobs(plan: BuildPlan | BuildCommands) {
+  const jobs: BuildJob[] = [...plan.compileJobs];
+  if (plan.precompileJob) jobs.push(plan.precompileJob);
+  if (plan.linkJob) jobs.push(plan.linkJob);
+
+  return jobs;
+}
+
+function writeStubFile(precompileJob: CompileJob) {
+  if (!precompileJob.stubFile) return;
+
+  const stubContent = `#include "${precompileJob.sourceFile}"\n`;
+  if (readFile(precompileJob.stubFile) !== stubContent) {
+    writeFile(precompileJob.stubFile, stubContent);
   }
+}
 
-  if (objectFiles.length >= LOWER_LIMIT_WILDARD_COMPILE) {
-    commandLine += `${compiler} ${fullCompilerArgs}`;
+function writeCompileCommands(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildCommands: BuildCommands,
+  singleFileBuild: boolean,
+) {
+  const compileCommandsPath =
+    settingsProvider.getCompileCommandsPath(activeFolder);
+
+  let compileCommands: JsonCompileCommand[] = buildCommands.compileJobs.map(
+    (job) => ({
+      directory: activeFolder,
+      file: job.sourceFile,
+      arguments: [job.command.program, ...job.command.args],
+      output: job.objectFile,
+    }),
+  );
 
-    if (language === Languages.cpp) {
-      commandLine += GetWildcardPatterns(files);
-    } else {
-      commandLine += ' *.c';
+  // Note: Keep the entries of the other files for single file builds
+  if (singleFileBuild) {
+    const lastCompileCommands: JsonCompileCommand[] | undefined =
+      readJsonFile(compileCommandsPath);
+
+    if (Array.isArray(lastCompileCommands)) {
+      const files = new Set(compileCommands.map((entry) => entry.file));
+      compileCommands = [
+        ...lastCompileCommands.filter((entry) => !files.has(entry.file)),
+        ...compileCommands,
+      ];
     }
+  }
+
+  writeJsonFile(compileCommandsPath, compileCommands);
+
+  return compileCommandsPath;
+}
+
+async function promptMissingLibraries(
+  settingsProvider: SettingsProvider,
+  linkerOutput: string,
+) {
+  const missingLibraries = getMissingLibraries(linkerOutput).filter(
+    (library) => !settingsProvider.linkerArgs.includes(library),
+  );
+
+  if (missingLibraries.length === 0) return;
+
+  const libraries = missingLibraries.join(' ');
+  const choice = await vscode.window.showWarningMessage(
+    `The linker reported undefined references, which ${libraries} might resolve. Add ${libraries} to the linker arguments?`,
+    'Add',
+  );
+
+  if (choice !== 'Add') return;
+
+  // Note: An override of the folder settings is extended in its own file
+  settingsProvider.setSetting('linkerArgs', [
+    ...settingsProvider.linkerArgs,
+    ...missingLibraries,
+  ]);
+}
+
+async function warnUnsupportedSettings(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+) {
+  const language = getLanguage(activeFolder);
+  const capabilities = await settingsProvider.getCompilerCapabilities(language);
+
+  if (!capabilities) return;
+
+  const getCompilerName = (compilerLanguage: Languages) =>
+    `${path.basename(settingsProvider.getCompilerPath(compilerLanguage))} ${
+      compilerLanguage === Languages.cpp
+        ? capabilities.cppVersion
+        : capabilities.cVersion
+    }`;
+  const compiler = getCompilerName(language);
+  const warnings: string[] = [];
+
+  if (
+    settingsProvider.cStandard &&
+    !capabilities.cStandards.includes(settingsProvider.cStandard)
+  ) {
+    warnings.push(
+      `The C standard ${
+        settingsProvider.cStandard
+      } is not supported by ${getCompilerName(Languages.c)}.`,
+    );
+  }
+  if (
+    settingsProvider.cppStandard &&
+    !capabilities.cppStandards.includes(settingsProvider.cppStandard)
+  ) {
+    warnings.push(
+      `The C++ standard ${
+        settingsProvider.cppStandard
+      } is not supported by ${getCompilerName(Languages.cpp)}.`,
+    );
+  }
+
+  for (const sanitizer of settingsProvider.getBuildMode(buildMode).sanitizers) {
+    // Note: Only the probed sanitizers are known to be unsupported
+    if (!SANITIZERS.includes(sanitizer)) continue;
+    if (capabilities.sanitizers.includes(sanitizer)) continue;
 
-    commandLine += ` -o ${executablePath}`;
+    warnings.push(
+      `The ${sanitizer} sanitizer is not supported by ${compiler}.`,
+    );
   }
 
-  if (objectFiles.length < LOWER_LIMIT_WILDARD_COMPILE) {
-    const fullObjectFileArgs = `${ltoFlag} ${objectFilesStr} -o ${executablePath}`;
-    commandLine += ` ${appendSymbol} ${compiler} ${fullCompilerArgs} ${fullObjectFileArgs}`;
+  if (
+    settingsProvider.useLinkTimeOptimization &&
+    settingsProvider.getBuildMode(buildMode).lto &&
+    !capabilities.lto
+  ) {
+    warnings.push(
+      `The link time optimization is not supported by ${compiler}.`,
+    );
   }
 
-  if (fullLinkerArgs && fullLinkerArgs !== '') {
-    commandLine += fullLinkerArgs;
+  // Note: The same unsupported settings are only reported once per compiler
+  const capabilityWarning =
+    warnings.length > 0 ? JSON.stringify(warnings) : undefined;
+  const isReported = capabilityWarning === lastCapabilityWarning;
+  lastCapabilityWarning = capabilityWarning;
+
+  if (isReported) return;
+
+  warnings.forEach((warning) => vscode.window.showWarningMessage(warning));
+}
+
+async function warnUnresolvedPackages(settingsProvider: SettingsProvider) {
+  const isMsvcBuild =
+    settingsProvider.operatingSystem === OperatingSystems.windows &&
+    settingsProvider.useMsvc;
+  if (isMsvcBuild) return;
+
+  const packages = settingsProvider.pkgConfigPackages;
+  const sysroot = settingsProvider.getToolchain()?.sysroot;
+  const pkgConfigArgs = await getPkgConfigFlags(packages, sysroot);
+
+  if (pkgConfigArgs) return;
+
+  // Note: The same unresolved packages are only reported once
+  const pkgConfigKey = getPkgConfigKey(packages, sysroot);
+  if (pkgConfigKey !== lastPkgConfigWarning) {
+    lastPkgConfigWarning = pkgConfigKey;
+    vscode.window.showWarningMessage(
+      `pkg-config could not resolve the packages: ${packages.join(', ')}`,
+    );
   }
+}
 
-  commandLine = commandLine.replace('  ', ' ');
+async function getPkgConfigArgs(settingsProvider: SettingsProvider) {
+  const pkgConfigArgs = await getPkgConfigFlags(
+    settingsProvider.pkgConfigPackages,
+    settingsProvider.getToolchain()?.sysroot,
+  );
 
-  return commandLine;
+  return pkgConfigArgs ? pkgConfigArgs : { compilerArgs: [], linkerArgs: [] };
 }
 
-function executeBuildTaskMsvcBased(
+function getUnixCompilerCommand(
   settingsProvider: SettingsProvider,
-  activeFolder: string,
-  buildMode: Builds,
   language: Languages,
+): Command {
+  const compiler = settingsProvider
+    .getCompilerPath(language)
+    .replace('.exe', '');
+  const standard =
+    language === Languages.cpp
+      ? settingsProvider.cppStandard
+      : settingsProvider.cStandard;
+
+  const args = getToolchainArgsUnix(settingsProvider.getToolchain(), compiler);
+  if (standard) args.push(`--std=${standard}`);
+
+  return {
+    program: compiler,
+    args: args,
+  };
+}
+
+async function getBuildCommandsUnixBased(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
   files: string[],
   modeDir: string,
-  appendSymbol: string,
-  executablePath: string,
+  targetFile: string,
+  outputType: OutputTypes,
   singleFileBuild: boolean,
-) {
-  let compiler: string | undefined;
-  let standard: string | undefined;
-  let hadSpaces = false;
+): Promise<BuildCommands | undefined> {
+  const buildModeConfig = settingsProvider.getBuildMode(buildMode);
 
-  if (language === Languages.cpp) {
-    compiler = SettingsProvider.MSVC_COMPILER_NAME;
-    standard = settingsProvider.cppStandard;
-  } else {
-    compiler = SettingsProvider.MSVC_COMPILER_NAME;
-    standard = settingsProvider.cStandard;
-  }
+  const compilerArgs: string[] = [];
 
-  const useWarnings = settingsProvider.enableWarnings;
-  const warningsAsErrors = settingsProvider.warningsAsError;
-  let warnings: string = '';
-  if (useWarnings) {
-    warnings = settingsProvider.msvcWarnings.join(' ');
+  if (settingsProvider.enableWarnings) {
+    compilerArgs.push(...parseArgumentList(settingsProvider.warnings));
   }
-  if (warningsAsErrors) {
-    warnings += ' /WX';
+  if (settingsProvider.warningsAsError) {
+    compilerArgs.push('-Werror');
   }
-  const includePaths = settingsProvider.includePaths;
-  const compilerArgs = settingsProvider.compilerArgs;
-  const linkerArgs = settingsProvider.linkerArgs;
 
-  let fullCompilerArgs = warnings;
+  compilerArgs.push(...getSanitizerArgsUnix(buildModeConfig));
 
-  const useAddressSanitizer = settingsProvider.useAddressSanitizer;
-  if (useAddressSanitizer && buildMode === Builds.debug) {
-    fullCompilerArgs += ' /fsanitize=address';
+  if (settingsProvider.showCompilationTime) {
+    compilerArgs.push('-ftime-report');
   }
 
-  const showCompilationTime = settingsProvider.showCompilationTime;
-  if (showCompilationTime) {
-    fullCompilerArgs += ' /Bt /d2cgsummary';
+  compilerArgs.push(...getDefineArgsUnix(settingsProvider.defines));
+  compilerArgs.push(...getBuildModeArgsUnix(buildModeConfig));
+
+  if (!settingsProvider.useMsvc) {
+    compilerArgs.push(...parseArgumentList(settingsProvider.compilerArgs));
   }
 
-  // Note: The c standard in msvc is either c11 or newer
-  const old_standard = ['c89', 'c99', 'gnu89', 'gnu99'].some(
-    (ext) => settingsProvider.cStandard === ext,
+  compilerArgs.push(...gatherIncludeDirsUnix(settingsProvider.includePaths));
+
+  const pkgConfigArgs = await getPkgConfigArgs(settingsProvider);
+  compilerArgs.push(...pkgConfigArgs.compilerArgs);
+
+  // Note: Well-known headers like pthread.h or omp.h need their library flags
+  const capabilities = await settingsProvider.getCompilerCapabilities(
+    getLanguage(activeFolder),
+  );
+  const libraryArgs = getIncludedLibraryFlags(
+    activeFolder,
+    files,
+    settingsProvider.includePaths,
+    capabilities ? capabilities.openmp : true,
   );
+  compilerArgs.push(...libraryArgs.compilerArgs);
 
-  if (standard && (language === Languages.cpp || !old_standard)) {
-    fullCompilerArgs += ` /std:${standard}`;
+  if (
+    outputType === OutputTypes.sharedLibrary &&
+    settingsProvider.operatingSystem !== OperatingSystems.windows
+  ) {
+    compilerArgs.push('-fPIC');
   }
-  if (language === Languages.c) {
-    if (old_standard) {
-      fullCompilerArgs += ' /D_CRT_SECURE_NO_WARNINGS';
-    }
+
+  const linkerArgs = settingsProvider.useMsvc
+    ? []
+    : [
+        ...pkgConfigArgs.linkerArgs,
+        ...libraryArgs.linkerArgs,
+        ...parseArgumentList(settingsProvider.linkerArgs),
+      ];
+
+  // Note: Archives of LTO objects would require the compiler's ar plugin
+  const useLto =
+    settingsProvider.useLinkTimeOptimization &&
+    buildModeConfig.lto &&
+    outputType !== OutputTypes.staticLibrary &&
+    !singleFileBuild;
+  const ltoArgs = useLto ? ['-flto'] : [];
+
+  const objectFiles: string[] = [];
+  const sourceFiles: string[] = [];
+
+  for (const file of files) {
+    if (!isSourceFile(path.extname(file))) continue;
+
+    // Note: The object files mirror the source paths, so their names are unique
+    const relativeSourcePath = getRelativePath(activeFolder, file);
+    const objectFilePath = getRelativeBuildPath(
+      activeFolder,
+      path.join(modeDir, `${relativeSourcePath}.o`),
+    );
+
+    objectFiles.push(objectFilePath);
+    sourceFiles.push(file);
+  }
+
+  if (objectFiles.length === 0) return;
+
+  const cCompiler = getUnixCompilerCommand(settingsProvider, Languages.c);
+  const cppCompiler = getUnixCompilerCommand(settingsProvider, Languages.cpp);
+
+  let precompileJob: CompileJob | undefined;
+  let precompiledHeaderArgs: string[] = [];
+  let precompiledHeaderLanguage: Languages | undefined;
+
+  const headerFile = getPrecompiledHeaderFile(settingsProvider, activeFolder);
+  if (headerFile) {
+    precompiledHeaderLanguage = getPrecompiledHeaderLanguage(
+      headerFile,
+      sourceFiles,
+    );
+
+    const isCppHeader = precompiledHeaderLanguage === Languages.cpp;
+    const compiler = isCppHeader ? cppCompiler : cCompiler;
+    const isClang = compiler.program.toLowerCase().includes('clang');
+
+    const precompiledHeaderPath = getRelativeBuildPath(
+      activeFolder,
+      path.join(
+        modeDir,
+        path.basename(headerFile) + (isClang ? '.pch' : '.gch'),
+      ),
+    );
+    const dependencyFilePath = `${precompiledHeaderPath}.d`;
+    const headerType = isCppHeader ? 'c++-header' : 'c-header';
+
+    // Note: The build engine drops the same warning of GCC from the output
+    const pragmaOnceArgs = isClang ? ['-Wno-pragma-once-outside-header'] : [];
+
+    precompileJob = {
+      name: getRelativePath(activeFolder, headerFile),
+      command: {
+        program: compiler.program,
+        args: [
+          ...compiler.args,
+          ...compilerArgs,
+          ...ltoArgs,
+          ...pragmaOnceArgs,
+          '-x',
+          headerType,
+          '-MMD',
+          '-MP',
+          '-MF',
+          dependencyFilePath,
+          '-c',
+          headerFile,
+          '-o',
+          precompiledHeaderPath,
+        ],
+      },
+      sourceFile: headerFile,
+      objectFile: path.join(activeFolder, precompiledHeaderPath),
+      dependencyFile: path.join(activeFolder, dependencyFilePath),
+    };
+
+    // Note: GCC uses the .gch file next to the path of the included header
+    precompiledHeaderArgs = isClang
+      ? ['-include-pch', precompiledHeaderPath]
+      : ['-include', precompiledHeaderPath.replace(/\.gch$/, '')];
   }
 
-  if (buildMode === Builds.debug) {
-    fullCompilerArgs += ' /Od /Zi';
+  const compileJobs: CompileJob[] = sourceFiles.map((file, idx) => {
+    const objectFilePath = objectFiles[idx] as string;
+    const objectFile = path.join(activeFolder, objectFilePath);
+    const usePrecompiledHeader =
+      precompileJob !== undefined &&
+      precompiledHeaderLanguage !== undefined &&
+      isSourceFileOfLanguage(file, precompiledHeaderLanguage);
+
+    const compiler = isCppSourceFile(path.extname(file))
+      ? cppCompiler
+      : cCompiler;
+
+    return {
+      name: getRelativePath(activeFolder, file),
+      command: {
+        program: compiler.program,
+        args: [
+          ...compiler.args,
+          ...compilerArgs,
+          ...(usePrecompiledHeader ? precompiledHeaderArgs : []),
+          ...ltoArgs,
+          '-MMD',
+          '-MP',
+          '-c',
+          file,
+          '-o',
+          objectFilePath,
+        ],
+      },
+      sourceFile: path.resolve(activeFolder, file),
+      objectFile: objectFile,
+      dependencyFile: path.join(
+        path.dirname(objectFile),
+        path.parse(objectFile).name + '.d',
+      ),
+      precompiledHeader: usePrecompiledHeader
+        ? precompileJob?.objectFile
+        : undefined,
+    };
+  });
+
+  const relativeTargetPath = getRelativeBuildPath(activeFolder, targetFile);
+
+  // Note: Mixed C and C++ builds have to be linked with the C++ driver
+  const hasCppFiles = sourceFiles.some((file) =>
+    isCppSourceFile(path.extname(file)),
+  );
+  const linker = hasCppFiles ? cppCompiler : cCompiler;
+
+  let linkCommand: Command;
+  if (outputType === OutputTypes.staticLibrary) {
+    linkCommand = {
+      program: settingsProvider.getArchiverPath(UNIX_ARCHIVER),
+      args: ['rcs', relativeTargetPath, ...objectFiles],
+    };
   } else {
-    fullCompilerArgs += ' /Ox /GL /DNDEBUG';
+    const sharedArgs =
+      outputType === OutputTypes.sharedLibrary ? ['-shared'] : [];
+
+    linkCommand = {
+      program: linker.program,
+      args: [
+        ...linker.args,
+        ...compilerArgs,
+        ...sharedArgs,
+        ...ltoArgs,
+        ...objectFiles,
+        '-o',
+        relativeTargetPath,
+        ...linkerArgs,
+      ],
+    };
+  }
+
+  return {
+    precompileJob: precompileJob,
+    compileJobs: compileJobs,
+    linkJob: {
+      name: relativeTargetPath,
+      command: linkCommand,
+    },
+    compileSignature: JSON.stringify([
+      cCompiler,
+      cppCompiler,
+      compilerArgs,
+      ltoArgs,
+      precompiledHeaderArgs,
+    ]),
+    linkSignature: JSON.stringify(linkCommand),
+    targetFile: targetFile,
+    targetPath: relativeTargetPath,
+  };
+}
+
+function getBuildCommandsMsvcBased(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  files: string[],
+  modeDir: string,
+  targetFile: string,
+  outputType: OutputTypes,
+  singleFileBuild: boolean,
+): BuildCommands | undefined {
+  const compiler = SettingsProvider.MSVC_COMPILER_NAME;
+
+  const buildModeConfig = settingsProvider.getBuildMode(buildMode);
+
+  const compilerArgs: string[] = [];
+
+  if (settingsProvider.enableWarnings) {
+    compilerArgs.push(...parseArgumentList(settingsProvider.msvcWarnings));
+  }
+  if (settingsProvider.warningsAsError) {
+    compilerArgs.push('/WX');
   }
-  fullCompilerArgs += ' /EHsc';
 
-  fullCompilerArgs += gatherIncludeDirsMsvc(includePaths);
+  compilerArgs.push(...getSanitizerArgsMsvc(buildModeConfig));
 
-  let fullLinkerArgs: string = '';
+  if (settingsProvider.showCompilationTime) {
+    compilerArgs.push('/Bt', '/d2cgsummary');
+  }
 
-  if (linkerArgs && linkerArgs.length > 0) {
-    fullLinkerArgs += ' ' + linkerArgs.join(' ');
+  // Note: The c standard in msvc is either c11 or newer
+  const old_standard = ['c89', 'c99', 'gnu89', 'gnu99'].some(
+    (ext) => settingsProvider.cStandard === ext,
+  );
+
+  let cStandardArgs: string[] = [];
+  if (settingsProvider.cStandard && !old_standard) {
+    cStandardArgs = [`/std:${settingsProvider.cStandard}`];
+  } else if (old_standard) {
+    cStandardArgs = ['/D_CRT_SECURE_NO_WARNINGS'];
   }
+  const cppStandardArgs = settingsProvider.cppStandard
+    ? [`/std:${settingsProvider.cppStandard}`]
+    : [];
+
+  compilerArgs.push(...getDefineArgsMsvc(settingsProvider.defines));
+  compilerArgs.push(...getBuildModeArgsMsvc(buildModeConfig));
+  compilerArgs.push('/EHsc');
 
-  if (fullLinkerArgs.length > 0) fullLinkerArgs = ' /link ' + fullLinkerArgs;
+  compilerArgs.push(...gatherIncludeDirsMsvc(settingsProvider.includePaths));
+  compilerArgs.push(...parseArgumentList(settingsProvider.compilerArgs));
+
+  const linkerArgs = parseArgumentList(settingsProvider.linkerArgs);
 
   if (
     settingsProvider.useLinkTimeOptimization &&
-    buildMode === Builds.release &&
+    buildModeConfig.lto &&
     !singleFileBuild
-  )
-    fullLinkerArgs += ' /LTCG';
-
-  if (compilerArgs && compilerArgs.length > 0) {
-    fullCompilerArgs += ' ' + compilerArgs.join(' ');
+  ) {
+    linkerArgs.push('/LTCG');
   }
 
-  let commandLine: string = `"${settingsProvider.msvcBatchPath}" ${settingsProvider.architecture} ${appendSymbol} `;
-
-  modeDir = modeDir.replace(activeFolder, '.');
-  executablePath = executablePath.replace(activeFolder, '.');
-  const pathArgs = `/Fd${modeDir}\\ /Fo${modeDir}\\ /Fe${executablePath}`;
+  const relativeModeDir = getRelativeBuildPath(activeFolder, modeDir);
+  const relativeTargetPath = getRelativeBuildPath(activeFolder, targetFile);
 
   const objectFiles: string[] = [];
+  const sourceFiles: string[] = [];
 
-  let fullFileArgs: string = '';
   for (const file of files) {
-    const fileExtension = path.parse(file).ext;
+    if (!isSourceFile(path.extname(file))) continue;
 
-    if (language === Languages.c && !isCSourceFile(fileExtension)) {
-      continue;
-    } else if (language === Languages.cpp && !isCppSourceFile(fileExtension)) {
-      continue;
-    }
+    const relativeSourcePath = getRelativePath(activeFolder, file);
+    objectFiles.push(
+      path.win32.join(relativeModeDir, `${relativeSourcePath}.obj`),
+    );
+    sourceFiles.push(file);
+  }
 
-    objectFiles.push(file);
+  if (sourceFiles.length === 0) return;
 
-    const hasSpace = file.includes(' ');
+  const linkObjectFiles = [...objectFiles];
+  const compilePathArgs = ['/FS', `/Fd${relativeModeDir}\\`];
 
-    if (hasSpace) {
-      fullFileArgs += ` "${file}"`;
-      hadSpaces = true;
-    } else {
-      fullFileArgs += ` ${file}`;
-    }
-  }
+  let precompileJob: CompileJob | undefined;
+  let precompiledHeaderArgs: string[] = [];
+  let precompiledHeaderLanguage: Languages | undefined;
 
-  if (fullFileArgs === '') return;
+  const headerFile = getPrecompiledHeaderFile(settingsProvider, activeFolder);
+  if (headerFile) {
+    precompiledHeaderLanguage = getPrecompiledHeaderLanguage(
+      headerFile,
+      sourceFiles,
+    );
 
-  if (objectFiles.length >= LOWER_LIMIT_WILDARD_COMPILE) {
-    commandLine += ` cd ${activeFolder} &&`;
-    commandLine += `${compiler} ${fullCompilerArgs} ${pathArgs} ${fullLinkerArgs} `;
+    const isCppHeader = precompiledHeaderLanguage === Languages.cpp;
+    const headerBaseName = path.basename(headerFile);
 
-    if (language === Languages.cpp) {
-      commandLine += GetWildcardPatterns(files);
-    } else {
-      commandLine += ' *.c';
-    }
-  } else {
-    commandLine += ` cd ${activeFolder} &&`;
-    commandLine += `${compiler} ${fullCompilerArgs} ${pathArgs} ${fullFileArgs} ${fullLinkerArgs}`;
+    // Note: MSVC creates the precompiled header from a source file
+    const stubFile = path.join(
+      modeDir,
+      `${headerBaseName}.${isCppHeader ? 'cpp' : 'c'}`,
+    );
+
+    const precompiledHeaderPath = path.win32.join(
+      relativeModeDir,
+      `${headerBaseName}.pch`,
+    );
+    const precompiledObjectPath = path.win32.join(
+      relativeModeDir,
+      `${headerBaseName}.obj`,
+    );
+    const dependencyFilePath = path.win32.join(
+      relativeModeDir,
+      `${headerBaseName}.json`,
+    );
+    const standardArgs = isCppHeader ? cppStandardArgs : cStandardArgs;
+
+    precompileJob = {
+      name: getRelativePath(activeFolder, headerFile),
+      command: {
+        program: compiler,
+        args: [
+          ...standardArgs,
+          ...compilerArgs,
+          '/c',
+          ...compilePathArgs,
+          `/Yc${headerFile}`,
+          `/Fp${precompiledHeaderPath}`,
+          `/Fo${precompiledObjectPath}`,
+          '/sourceDependencies',
+          dependencyFilePath,
+          stubFile,
+        ],
+      },
+      sourceFile: headerFile,
+      objectFile: path.join(
+        activeFolder,
+        replaceBackslashes(precompiledHeaderPath),
+      ),
+      dependencyFile: path.join(
+        activeFolder,
+        replaceBackslashes(dependencyFilePath),
+      ),
+      stubFile: stubFile,
+    };
+
+    precompiledHeaderArgs = [
+      `/Yu${headerFile}`,
+      `/FI${headerFile}`,
+      `/Fp${precompiledHeaderPath}`,
+    ];
+
+    // Note: The object file of the precompiled header has to be linked as well
+    linkObjectFiles.push(precompiledObjectPath);
   }
 
-  if (hadSpaces) {
-    commandLine = `"${commandLine}"`;
+  const compileJobs: CompileJob[] = sourceFiles.map((file, idx) => {
+    const objectFilePath = objectFiles[idx] as string;
+    const dependencyFilePath = objectFilePath.replace(/\.obj$/, '.json');
+    const usePrecompiledHeader =
+      precompileJob !== undefined &&
+      precompiledHeaderLanguage !== undefined &&
+      isSourceFileOfLanguage(file, precompiledHeaderLanguage);
+
+    const standardArgs = isCppSourceFile(path.extname(file))
+      ? cppStandardArgs
+      : cStandardArgs;
+
+    return {
+      name: getRelativePath(activeFolder, file),
+      command: {
+        program: compiler,
+        args: [
+          ...standardArgs,
+          ...compilerArgs,
+          ...(usePrecompiledHeader ? precompiledHeaderArgs : []),
+          '/c',
+          ...compilePathArgs,
+          `/Fo${objectFilePath}`,
+          '/sourceDependencies',
+          dependencyFilePath,
+          file,
+        ],
+      },
+      sourceFile: path.resolve(activeFolder, file),
+      objectFile: path.join(activeFolder, replaceBackslashes(objectFilePath)),
+      dependencyFile: path.join(
+        activeFolder,
+        replaceBackslashes(dependencyFilePath),
+      ),
+      precompiledHeader: usePrecompiledHeader
+        ? precompileJob?.objectFile
+        : undefined,
+    };
+  });
+
+  let linkCommand: Command;
+  if (outputType === OutputTypes.staticLibrary) {
+    const ltcgArgs = buildModeConfig.lto ? ['/LTCG'] : [];
+
+    linkCommand = {
+      program: MSVC_ARCHIVER,
+      args: [
+        '/nologo',
+        ...ltcgArgs,
+        `/OUT:${relativeTargetPath}`,
+        ...linkObjectFiles,
+      ],
+    };
+  } else {
+    const sharedArgs = outputType === OutputTypes.sharedLibrary ? ['/LD'] : [];
+
+    linkCommand = {
+      program: compiler,
+      args: [
+        ...compilerArgs,
+        ...sharedArgs,
+        `/Fd${relativeModeDir}\\`,
+        `/Fe${relativeTargetPath}`,
+        ...linkObjectFiles,
+        ...(linkerArgs.length > 0 ? ['/link', ...linkerArgs] : []),
+      ],
+    };
   }
 
-  return commandLine;
+  return {
+    precompileJob: precompileJob,
+    compileJobs: compileJobs,
+    linkJob: {
+      name: relativeTargetPath,
+      command: linkCommand,
+    },
+    compileSignature: JSON.stringify([
+      cStandardArgs,
+      cppStandardArgs,
+      compilerArgs,
+      precompiledHeaderArgs,
+    ]),
+    linkSignature: JSON.stringify(linkCommand),
+    targetFile: targetFile,
+    targetPath: relativeTargetPath,
+  };
 }
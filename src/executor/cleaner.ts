@@ -1,46 +1,37 @@
-import * as path from 'path';
 import * as vscode from 'vscode';
 
+import { getEchoCommand } from '../utils/commandUtils';
 import {
   pathExists,
   replaceBackslashes,
   rmdirRecursive,
 } from '../utils/fileUtils';
-import { Builds, OperatingSystems } from '../utils/types';
+import { OperatingSystems } from '../utils/types';
 import { getProcessExecution } from '../utils/vscodeUtils';
 
 const EXTENSION_NAME = 'C_Cpp_Runner';
 
 export async function executeCleanTask(
   activeFolder: string,
-  buildMode: Builds,
+  modeDir: string,
   workspaceFolder: string,
   operatingSystem: OperatingSystems,
 ) {
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
-
   let relativeModeDir = modeDir.replace(workspaceFolder, '');
   relativeModeDir = replaceBackslashes(relativeModeDir);
 
-  const commandLine = `echo Cleaning ${modeDir.replace(
-    workspaceFolder,
-    '.',
-  )} ...`;
+  const command = getEchoCommand(
+    `Cleaning ${modeDir.replace(workspaceFolder, '.')} ...`,
+    operatingSystem,
+  );
 
   if (!pathExists(modeDir)) return;
 
   rmdirRecursive(modeDir);
-  if (!commandLine) return;
 
   const task_name = 'Clean';
 
-  const execution = getProcessExecution(
-    operatingSystem,
-    false,
-    commandLine,
-    activeFolder,
-  );
+  const execution = getProcessExecution(command, activeFolder);
 
   const definition = {
     type: 'shell',
@@ -2,16 +2,12 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { pathExists, readJsonFile } from '../utils/fileUtils';
-import { Builds, JsonLaunchConfig } from '../utils/types';
+import { JsonLaunchConfig } from '../utils/types';
 import { getLaunchConfigIndex } from '../utils/vscodeUtils';
 
 const CONFIG_NAME = 'C/C++ Runner: Debug Session';
 
-export async function runDebugger(
-  activeFolder: string,
-  workspaceFolder: string,
-  buildMode: Builds,
-) {
+export async function runDebugger(workspaceFolder: string, modeDir: string) {
   const uriWorkspaceFolder = vscode.Uri.file(workspaceFolder);
   const folder = vscode.workspace.getWorkspaceFolder(uriWorkspaceFolder);
   const launchPath = path.join(workspaceFolder, '.vscode', 'launch.json');
@@ -24,9 +20,6 @@ export async function runDebugger(
 
   if (configIdx === undefined) return;
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
-
   if (!pathExists(modeDir)) return;
 
   if (
@@ -0,0 +1,83 @@
+import * as path from 'path';
+
+import { SettingsProvider } from '../provider/settingsProvider';
+import {
+  getLanguage,
+  isCppSourceFile,
+  isCSourceFile,
+  mkdirRecursive,
+  pathExists,
+  readFile,
+} from '../utils/fileUtils';
+import { parsePreprocessedOutput } from '../utils/preprocessorUtils';
+import { getMsvcEnvironment } from '../utils/systemUtils';
+import { Languages, OperatingSystems } from '../utils/types';
+import { getCommandOutput } from '../utils/vscodeUtils';
+import { getSingleFileArgsMsvc, getSingleFileCommandUnix } from './assemble';
+
+export async function generatePreprocessedCode(
+  settingsProvider: SettingsProvider,
+  activeFolder: string,
+  buildMode: string,
+  file: string,
+) {
+  const fileExtension = path.extname(file);
+  let language = getLanguage(activeFolder);
+  if (isCSourceFile(fileExtension)) language = Languages.c;
+  if (isCppSourceFile(fileExtension)) language = Languages.cpp;
+
+  const operatingSystem = settingsProvider.operatingSystem;
+  const isMsvcBuild =
+    operatingSystem === OperatingSystems.windows && settingsProvider.useMsvc;
+
+  if (!isMsvcBuild) {
+    const command = await getSingleFileCommandUnix(
+      settingsProvider,
+      buildMode,
+      language,
+    );
+    command.args.push('-E', file);
+
+    const output = await getCommandOutput(
+      command,
+      activeFolder,
+      'Preprocessing failed',
+    );
+    if (output === undefined) return;
+
+    return parsePreprocessedOutput(output, activeFolder, []);
+  }
+
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
+  if (!pathExists(modeDir)) mkdirRecursive(modeDir);
+
+  const env = await getMsvcEnvironment(
+    settingsProvider.msvcBatchPath,
+    settingsProvider.architecture,
+  );
+  const preprocessedFile = path.join(modeDir, path.parse(file).name + '.i');
+
+  // Note: MSVC writes the output of /P into the file given by /Fi
+  const args = getSingleFileArgsMsvc(settingsProvider, buildMode, language);
+  args.push('/P', `/Fi${preprocessedFile}`, file);
+
+  const command = { program: SettingsProvider.MSVC_COMPILER_NAME, args: args };
+  const result = await getCommandOutput(
+    command,
+    activeFolder,
+    'Preprocessing failed',
+    env,
+  );
+  if (result === undefined) return;
+
+  const output = readFile(preprocessedFile);
+  if (output === undefined) return;
+
+  const includeDirs = env && env['INCLUDE'] ? env['INCLUDE'].split(';') : [];
+
+  return parsePreprocessedOutput(
+    output,
+    activeFolder,
+    includeDirs.filter((dir) => dir !== ''),
+  );
+}
@@ -1,56 +1,35 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+import { parseArguments } from '../utils/commandUtils';
 import { pathExists } from '../utils/fileUtils';
-import { Builds, OperatingSystems } from '../utils/types';
+import { Command } from '../utils/types';
 import { getProcessExecution } from '../utils/vscodeUtils';
 
 const EXTENSION_NAME = 'C_Cpp_Runner';
 
 export async function executeRunTask(
   activeFolder: string,
-  buildMode: Builds,
+  targetPath: string,
   argumentsString: string | undefined,
-  operatingSystem: OperatingSystems,
+  emulator: Command | undefined,
 ) {
-  const modeDir = path.join('build', buildMode);
+  if (!pathExists(path.dirname(targetPath))) return;
 
-  if (!pathExists(path.join(activeFolder, modeDir))) return;
-
-  let executableName: string;
-  let executablePath: string;
-
-  if (operatingSystem === OperatingSystems.windows) {
-    executableName = `out${buildMode}.exe`;
-    executablePath = `.\\${path.join(modeDir, executableName)}`;
-  } else {
-    executableName = `out${buildMode}`;
-    executablePath = `./${path.join(modeDir, executableName)}`;
-  }
-
-  let commandLine: string = '';
-  const executablePathHasSpace = executablePath.includes(' ');
-
-  if (executablePathHasSpace) {
-    commandLine = `"${executablePath}"`;
-  } else {
-    commandLine = executablePath;
-  }
-
-  if (argumentsString) {
-    commandLine += ` ${argumentsString.replace(/"/g, '')}`;
-  }
-
-  if (!commandLine) return;
+  const executablePath = path.resolve(activeFolder, targetPath);
+  const args = argumentsString ? parseArguments(argumentsString) : [];
 
   const task_name = 'Run';
 
-  const execution = getProcessExecution(
-    operatingSystem,
-    false,
-    commandLine,
-    activeFolder,
-  );
+  // Note: Binaries of a foreign architecture are run by the emulator
+  const command: Command = emulator
+    ? {
+        program: emulator.program,
+        args: [...emulator.args, executablePath, ...args],
+      }
+    : { program: executablePath, args: args };
+
+  const execution = getProcessExecution(command, activeFolder);
 
   const definition = {
     type: 'shell',
@@ -65,5 +44,5 @@ export async function executeRunTask(
     execution,
   );
 
-  await vscode.tasks.executeTask(task);
+  return vscode.tasks.executeTask(task);
 }
@@ -2,12 +2,20 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { generateAssemblerCode } from './executor/assemble';
-import { executeBuildTask } from './executor/builder';
+import { generateAssemblyListing } from './executor/assemblyListing';
+import {
+  executeBuildTask,
+  generateCompileCommands,
+  isBuildStale,
+} from './executor/builder';
 import { executeCleanTask } from './executor/cleaner';
 import { runDebugger } from './executor/debugger';
+import { generatePreprocessedCode } from './executor/preprocessor';
 import { executeRunTask } from './executor/runner';
 import { folderHandler } from './handler/folderHandler';
 import { modeHandler } from './handler/modeHandler';
+import { standardHandler } from './handler/standardHandler';
+import { toolchainHandler } from './handler/toolchainHandler';
 import {
   updateBuildStatus,
   updateCleanStatus,
@@ -15,24 +23,37 @@ import {
   updateFolderStatus,
   updateModeStatus,
   updateRunStatus,
+  updateStopStatus,
 } from './items/statusBarItems';
+import { AssemblyProvider } from './provider/assemblyProvider';
+import { BuildHistoryProvider } from './provider/buildHistoryProvider';
+import { DiagnosticsProvider } from './provider/diagnosticsProvider';
 import { LaunchProvider } from './provider/launchProvider';
+import { PreprocessorProvider } from './provider/preprocessorProvider';
 import { PropertiesProvider } from './provider/propertiesProvider';
 import { SettingsProvider } from './provider/settingsProvider';
+import { WatchProvider } from './provider/watchProvider';
 import {
   excludePatternFromList,
   foldersInDir,
+  isHeaderFile,
+  isSourceFile,
   mkdirRecursive,
   pathExists,
 } from './utils/fileUtils';
-import { Builds } from './utils/types';
+import { BuildHistoryEntry, Builds, OutputTypes } from './utils/types';
 import {
+  addBuildHistoryEntry,
+  clearBuildHistory,
   createStatusBarItem,
   disposeItem,
   getActivationState,
+  getBuildHistory,
   isCmakeProject,
   setContextValue,
+  terminateTaskExecution,
   updateActivationState,
+  waitForTaskExecution,
 } from './utils/vscodeUtils';
 
 let folderContextMenuDisposable: vscode.Disposable | undefined;
@@ -50,13 +71,34 @@ let commandCleanDisposable: vscode.Disposable | undefined;
 let commandArgumentDisposable: vscode.Disposable | undefined;
 let commandResetDisposable: vscode.Disposable | undefined;
 let commanAssemblerDisposable: vscode.Disposable | undefined;
+let commandCompileCommandsDisposable: vscode.Disposable | undefined;
+let commandPreprocessorDisposable: vscode.Disposable | undefined;
+let contentPreprocessorDisposable: vscode.Disposable | undefined;
+let linkPreprocessorDisposable: vscode.Disposable | undefined;
+let commandAssemblyViewDisposable: vscode.Disposable | undefined;
+let contentAssemblyViewDisposable: vscode.Disposable | undefined;
+let commandToolchainDisposable: vscode.Disposable | undefined;
+let commandStandardDisposable: vscode.Disposable | undefined;
+let commandStopBuildDisposable: vscode.Disposable | undefined;
+let commandStopRunDisposable: vscode.Disposable | undefined;
+let commandWatchDisposable: vscode.Disposable | undefined;
+let codeActionDiagnosticsDisposable: vscode.Disposable | undefined;
+let treeBuildHistoryDisposable: vscode.Disposable | undefined;
+let commandClearBuildHistoryDisposable: vscode.Disposable | undefined;
 let eventConfigurationDisposable: vscode.Disposable | undefined;
+let eventFolderSettingsDisposable: vscode.FileSystemWatcher | undefined;
 let eventRenameFilesDisposable: vscode.Disposable | undefined;
 let eventDeleteFilesDisposable: vscode.Disposable | undefined;
+let eventEndTaskDisposable: vscode.Disposable | undefined;
 
 let settingsProvider: SettingsProvider | undefined;
 let launchProvider: LaunchProvider | undefined;
 let propertiesProvider: PropertiesProvider | undefined;
+let diagnosticsProvider: DiagnosticsProvider | undefined;
+let buildHistoryProvider: BuildHistoryProvider | undefined;
+let watchProvider: WatchProvider | undefined;
+let preprocessorProvider: PreprocessorProvider | undefined;
+let assemblyProvider: AssemblyProvider | undefined;
 
 let folderStatusBar: vscode.StatusBarItem | undefined;
 let modeStatusBar: vscode.StatusBarItem | undefined;
@@ -64,11 +106,14 @@ let buildStatusBar: vscode.StatusBarItem | undefined;
 let runStatusBar: vscode.StatusBarItem | undefined;
 let debugStatusBar: vscode.StatusBarItem | undefined;
 let cleanStatusBar: vscode.StatusBarItem | undefined;
+let stopStatusBar: vscode.StatusBarItem | undefined;
+let buildTaskExecution: vscode.TaskExecution | undefined;
+let runTaskExecution: vscode.TaskExecution | undefined;
 let argumentsString: string | undefined;
 
 let workspaceFolder: string | undefined;
 let activeFolder: string | undefined;
-let buildMode: Builds = Builds.debug;
+let buildMode: string = Builds.debug;
 let showStatusBarItems: boolean = true;
 let createExtensionFiles: boolean = true;
 
@@ -117,8 +162,17 @@ export function activate(context: vscode.ExtensionContext) {
   initRunStatusBar();
   initDebugStatusBar();
   initCleanStatusBar();
+  initStopStatusBar();
 
   initAssemblerGenerator();
+  initCompileCommandsGenerator();
+  initPreprocessorViewer();
+  initAssemblyViewer();
+  initToolchainSelection();
+  initStandardSelection();
+  initWatchMode();
+  initDiagnosticsProvider();
+  initBuildHistory();
 
   initBuildSingleFile();
   initRunCurrentSelection();
@@ -139,6 +193,7 @@ export function deactivate() {
   disposeItem(runStatusBar);
   disposeItem(debugStatusBar);
   disposeItem(cleanStatusBar);
+  disposeItem(stopStatusBar);
   disposeItem(folderContextMenuDisposable);
   disposeItem(commandHandlerDisposable);
   disposeItem(commandToggleStateDisposable);
@@ -153,9 +208,29 @@ export function deactivate() {
   disposeItem(commandCleanDisposable);
   disposeItem(commandArgumentDisposable);
   disposeItem(commandResetDisposable);
+  disposeItem(commandCompileCommandsDisposable);
+  disposeItem(commandPreprocessorDisposable);
+  disposeItem(contentPreprocessorDisposable);
+  disposeItem(linkPreprocessorDisposable);
+  disposeItem(preprocessorProvider);
+  disposeItem(commandAssemblyViewDisposable);
+  disposeItem(contentAssemblyViewDisposable);
+  disposeItem(assemblyProvider);
+  disposeItem(commandToolchainDisposable);
+  disposeItem(commandStandardDisposable);
+  disposeItem(commandStopBuildDisposable);
+  disposeItem(commandStopRunDisposable);
+  disposeItem(commandWatchDisposable);
+  disposeItem(watchProvider);
+  disposeItem(codeActionDiagnosticsDisposable);
+  disposeItem(diagnosticsProvider);
+  disposeItem(treeBuildHistoryDisposable);
+  disposeItem(commandClearBuildHistoryDisposable);
   disposeItem(eventConfigurationDisposable);
+  disposeItem(eventFolderSettingsDisposable);
   disposeItem(eventDeleteFilesDisposable);
   disposeItem(eventRenameFilesDisposable);
+  disposeItem(eventEndTaskDisposable);
 }
 
 function initWorkspaceProvider() {
@@ -250,8 +325,10 @@ function initContextMenuDisposable() {
 
 function initEventListener() {
   initConfigurationChangeDisposable();
+  initFolderSettingsChangeDisposable();
   initFileRenameDisposable();
   initFileDeleteDisposable();
+  initEndTaskDisposable();
 }
 
 function initConfigurationChangeDisposable() {
@@ -273,6 +350,35 @@ function initConfigurationChangeDisposable() {
   extensionContext?.subscriptions.push(eventConfigurationDisposable);
 }
 
+function initFolderSettingsChangeDisposable() {
+  if (eventFolderSettingsDisposable) return;
+
+  eventFolderSettingsDisposable = vscode.workspace.createFileSystemWatcher(
+    `**/${SettingsProvider.FOLDER_SETTINGS_FILENAME}`,
+  );
+
+  const folderSettingsCallback = (e: vscode.Uri) => {
+    const extensionIsActive = getActivationState();
+    if (!extensionIsActive || !activeFolder) return;
+
+    const folderSettingsPath = path.join(
+      activeFolder,
+      SettingsProvider.FOLDER_SETTINGS_FILENAME,
+    );
+    if (e.fsPath !== folderSettingsPath) return;
+
+    settingsProvider?.changeCallback();
+    propertiesProvider?.updateFileContent();
+    launchProvider?.updateFileContent();
+  };
+
+  eventFolderSettingsDisposable.onDidCreate(folderSettingsCallback);
+  eventFolderSettingsDisposable.onDidChange(folderSettingsCallback);
+  eventFolderSettingsDisposable.onDidDelete(folderSettingsCallback);
+
+  extensionContext?.subscriptions.push(eventFolderSettingsDisposable);
+}
+
 function initFileRenameDisposable() {
   if (eventRenameFilesDisposable) return;
 
@@ -336,6 +442,26 @@ function initFileDeleteDisposable() {
   extensionContext?.subscriptions.push(eventDeleteFilesDisposable);
 }
 
+function initEndTaskDisposable() {
+  if (eventEndTaskDisposable) return;
+
+  eventEndTaskDisposable = vscode.tasks.onDidEndTask(
+    (e: vscode.TaskEndEvent) => {
+      if (e.execution === buildTaskExecution) {
+        buildTaskExecution = undefined;
+      } else if (e.execution === runTaskExecution) {
+        runTaskExecution = undefined;
+      } else {
+        return;
+      }
+
+      updateStopStatusBar();
+    },
+  );
+
+  extensionContext?.subscriptions.push(eventEndTaskDisposable);
+}
+
 function toggleStatusBarItems() {
   if (showStatusBarItems) {
     folderStatusBar?.show();
@@ -344,6 +470,7 @@ function toggleStatusBarItems() {
     runStatusBar?.show();
     debugStatusBar?.show();
     cleanStatusBar?.show();
+    updateStopStatusBar();
   } else {
     folderStatusBar?.hide();
     modeStatusBar?.hide();
@@ -351,6 +478,7 @@ function toggleStatusBarItems() {
     runStatusBar?.hide();
     debugStatusBar?.hide();
     cleanStatusBar?.hide();
+    stopStatusBar?.hide();
   }
 }
 
@@ -361,11 +489,13 @@ function updateFolderData() {
 
   if (workspaceFolder && activeFolder) {
     if (settingsProvider) {
-      settingsProvider.updateFolderData(workspaceFolder);
+      settingsProvider.updateFolderData(workspaceFolder, activeFolder);
       settingsProvider.updateFileContent();
 
       if (propertiesProvider) {
-        propertiesProvider.updateFolderData(workspaceFolder);
+        propertiesProvider.updateFolderData(workspaceFolder, activeFolder);
+        propertiesProvider.updateModeData(buildMode);
+        propertiesProvider.updateFileContent();
       }
 
       if (launchProvider) {
@@ -394,7 +524,12 @@ function updateFolderData() {
     );
   }
   if (buildStatusBar) {
-    updateBuildStatus(buildStatusBar, showStatusBarItems, activeFolder);
+    updateBuildStatus(
+      buildStatusBar,
+      showStatusBarItems,
+      activeFolder,
+      getLastBuild(),
+    );
   }
   if (runStatusBar) {
     updateRunStatus(runStatusBar, showStatusBarItems, activeFolder);
@@ -405,6 +540,12 @@ function updateFolderData() {
   if (debugStatusBar) {
     updateDebugStatus(debugStatusBar, showStatusBarItems, activeFolder);
   }
+  if (stopStatusBar) {
+    updateStopStatusBar();
+  }
+  if (watchProvider) {
+    updateWatchProvider();
+  }
 }
 
 function initFolderStatusBar() {
@@ -480,7 +621,7 @@ function initModeStatusBar() {
   commandModeDisposable = vscode.commands.registerCommand(
     commandName,
     async () => {
-      const pickedMode = await modeHandler();
+      const pickedMode = await modeHandler(settingsProvider);
       if (pickedMode) {
         buildMode = pickedMode;
 
@@ -491,6 +632,9 @@ function initModeStatusBar() {
           buildMode,
         );
 
+        propertiesProvider?.updateModeData(buildMode);
+        propertiesProvider?.updateFileContent();
+
         if (!launchProvider) return;
         launchProvider.updateModeData(buildMode);
         launchProvider.updateFileContent();
@@ -540,9 +684,13 @@ function initBuildStatusBar() {
   if (buildStatusBar) return;
 
   buildStatusBar = createStatusBarItem();
-  buildStatusBar.tooltip = 'Start Compilation';
   extensionContext?.subscriptions.push(buildStatusBar);
-  updateBuildStatus(buildStatusBar, showStatusBarItems, activeFolder);
+  updateBuildStatus(
+    buildStatusBar,
+    showStatusBarItems,
+    activeFolder,
+    getLastBuild(),
+  );
 
   const commandName = `${EXTENSION_NAME}.buildFolder`;
   commandBuildDisposable = vscode.commands.registerCommand(
@@ -564,7 +712,10 @@ function initRunStatusBar() {
   const commandName = `${EXTENSION_NAME}.runFolder`;
   commandRunDisposable = vscode.commands.registerCommand(
     commandName,
-    async () => runTaskCallback(),
+    async () => {
+      if (isLibraryFolder()) return;
+      runTaskCallback();
+    },
   );
 
   runStatusBar.command = commandName;
@@ -580,9 +731,10 @@ function initDebugStatusBar() {
   updateDebugStatus(debugStatusBar, showStatusBarItems, activeFolder);
 
   const commandName = `${EXTENSION_NAME}.debugFolder`;
-  commandDebugDisposable = vscode.commands.registerCommand(commandName, () =>
-    debugTaskCallback(),
-  );
+  commandDebugDisposable = vscode.commands.registerCommand(commandName, () => {
+    if (isLibraryFolder()) return;
+    debugTaskCallback();
+  });
 
   debugStatusBar.command = commandName;
   extensionContext?.subscriptions.push(commandDebugDisposable);
@@ -608,6 +760,59 @@ async function initCleanStatusBar() {
   extensionContext?.subscriptions.push(commandCleanDisposable);
 }
 
+function initStopStatusBar() {
+  if (stopStatusBar) return;
+
+  stopStatusBar = createStatusBarItem();
+  extensionContext?.subscriptions.push(stopStatusBar);
+  updateStopStatusBar();
+
+  commandStopBuildDisposable = vscode.commands.registerCommand(
+    `${EXTENSION_NAME}.stopBuild`,
+    async () => {
+      if (buildTaskExecution) await terminateTaskExecution(buildTaskExecution);
+    },
+  );
+  commandStopRunDisposable = vscode.commands.registerCommand(
+    `${EXTENSION_NAME}.stopRun`,
+    async () => {
+      if (runTaskExecution) await terminateTaskExecution(runTaskExecution);
+    },
+  );
+
+  extensionContext?.subscriptions.push(commandStopBuildDisposable);
+  extensionContext?.subscriptions.push(commandStopRunDisposable);
+}
+
+function updateStopStatusBar() {
+  if (!stopStatusBar) return;
+
+  // Note: Short tasks may end before their execution is stored
+  const taskExecutions = vscode.tasks.taskExecutions;
+  if (buildTaskExecution && !taskExecutions.includes(buildTaskExecution)) {
+    buildTaskExecution = undefined;
+  }
+  if (runTaskExecution && !taskExecutions.includes(runTaskExecution)) {
+    runTaskExecution = undefined;
+  }
+
+  const runningTasks: string[] = [];
+  if (buildTaskExecution) runningTasks.push('Build');
+  if (runTaskExecution) runningTasks.push('Run');
+
+  // Note: The build is stopped first if both tasks are running
+  stopStatusBar.command = buildTaskExecution
+    ? `${EXTENSION_NAME}.stopBuild`
+    : `${EXTENSION_NAME}.stopRun`;
+
+  updateStopStatus(
+    stopStatusBar,
+    showStatusBarItems,
+    activeFolder,
+    runningTasks,
+  );
+}
+
 function initProviderBasedOnSingleFile() {
   const currentFile = vscode.window.activeTextEditor?.document.fileName;
   if (!currentFile) return;
@@ -637,7 +842,7 @@ function initRunCurrentSelection() {
     commandName,
     async () => {
       initProviderBasedOnSingleFile();
-      runTaskCallback();
+      runTaskCallback(true);
     },
   );
   extensionContext?.subscriptions.push(commandRunCurrentSelectionDisposable);
@@ -649,7 +854,7 @@ function initDebugCurrentSelection() {
     commandName,
     () => {
       initProviderBasedOnSingleFile();
-      debugTaskCallback();
+      debugTaskCallback(true);
     },
   );
   extensionContext?.subscriptions.push(commandDebugCurrentSelectionDisposable);
@@ -673,55 +878,457 @@ function initAssemblerGenerator() {
   extensionContext?.subscriptions.push(commanAssemblerDisposable);
 }
 
+function initCompileCommandsGenerator() {
+  if (commandCompileCommandsDisposable) return;
+
+  const commandName = `${EXTENSION_NAME}.generateCompileCommands`;
+
+  commandCompileCommandsDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => generateCompileCommandsCallback(),
+  );
+
+  extensionContext?.subscriptions.push(commandCompileCommandsDisposable);
+}
+
+function initPreprocessorViewer() {
+  if (preprocessorProvider) return;
+
+  preprocessorProvider = new PreprocessorProvider();
+
+  contentPreprocessorDisposable =
+    vscode.workspace.registerTextDocumentContentProvider(
+      PreprocessorProvider.scheme,
+      preprocessorProvider,
+    );
+  linkPreprocessorDisposable = vscode.languages.registerDocumentLinkProvider(
+    { scheme: PreprocessorProvider.scheme },
+    preprocessorProvider,
+  );
+
+  const commandName = `${EXTENSION_NAME}.generatePreprocessedCode`;
+
+  commandPreprocessorDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => generatePreprocessedCallback(),
+  );
+
+  extensionContext?.subscriptions.push(preprocessorProvider);
+  extensionContext?.subscriptions.push(contentPreprocessorDisposable);
+  extensionContext?.subscriptions.push(linkPreprocessorDisposable);
+  extensionContext?.subscriptions.push(commandPreprocessorDisposable);
+}
+
+function initAssemblyViewer() {
+  if (assemblyProvider) return;
+
+  assemblyProvider = new AssemblyProvider((sourceFile: string) =>
+    updateAssemblyView(sourceFile),
+  );
+
+  contentAssemblyViewDisposable =
+    vscode.workspace.registerTextDocumentContentProvider(
+      AssemblyProvider.scheme,
+      assemblyProvider,
+    );
+
+  const commandName = `${EXTENSION_NAME}.showAssemblyView`;
+
+  commandAssemblyViewDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => showAssemblyViewCallback(),
+  );
+
+  extensionContext?.subscriptions.push(assemblyProvider);
+  extensionContext?.subscriptions.push(contentAssemblyViewDisposable);
+  extensionContext?.subscriptions.push(commandAssemblyViewDisposable);
+}
+
+function initToolchainSelection() {
+  if (commandToolchainDisposable) return;
+
+  const commandName = `${EXTENSION_NAME}.selectToolchain`;
+
+  commandToolchainDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => {
+      if (!activeFolder) {
+        initProviderBasedOnSingleFile();
+      }
+
+      const pickedSet = await toolchainHandler(settingsProvider);
+      if (!pickedSet || !settingsProvider) return;
+
+      settingsProvider.setCompilers(pickedSet);
+
+      propertiesProvider?.updateFileContent();
+      launchProvider?.updateFileContent();
+    },
+  );
+
+  extensionContext?.subscriptions.push(commandToolchainDisposable);
+}
+
+function initStandardSelection() {
+  if (commandStandardDisposable) return;
+
+  const commandName = `${EXTENSION_NAME}.selectStandard`;
+
+  commandStandardDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => {
+      if (!activeFolder) {
+        initProviderBasedOnSingleFile();
+      }
+
+      if (!settingsProvider) return;
+
+      const pickedStandard = await standardHandler(settingsProvider);
+      if (!pickedStandard) return;
+
+      settingsProvider.setStandard(
+        pickedStandard.language,
+        pickedStandard.standard,
+      );
+
+      propertiesProvider?.updateFileContent();
+    },
+  );
+
+  extensionContext?.subscriptions.push(commandStandardDisposable);
+}
+
+function initWatchMode() {
+  if (commandWatchDisposable) return;
+
+  const commandName = `${EXTENSION_NAME}.toggleWatchMode`;
+
+  commandWatchDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => {
+      if (watchProvider) {
+        disposeItem(watchProvider);
+        watchProvider = undefined;
+
+        vscode.window.showInformationMessage('Watch mode stopped.');
+        return;
+      }
+
+      if (!activeFolder || !settingsProvider) {
+        vscode.window.showInformationMessage(
+          'Select a folder before starting the watch mode.',
+        );
+        return;
+      }
+
+      updateWatchProvider();
+
+      vscode.window.showInformationMessage(
+        `Watch mode started for ${path.basename(activeFolder)}.`,
+      );
+    },
+  );
+
+  extensionContext?.subscriptions.push(commandWatchDisposable);
+}
+
+function updateWatchProvider() {
+  disposeItem(watchProvider);
+  watchProvider = undefined;
+
+  if (!activeFolder || !settingsProvider) return;
+
+  watchProvider = new WatchProvider(
+    activeFolder,
+    settingsProvider.getBuildDir(activeFolder),
+    watchCallback,
+  );
+}
+
+async function watchCallback() {
+  if (!activeFolder || !settingsProvider) return;
+
+  // Note: The in-flight tasks are outdated by the changed files
+  if (buildTaskExecution) await terminateTaskExecution(buildTaskExecution);
+  if (runTaskExecution) await terminateTaskExecution(runTaskExecution);
+
+  const outputType = settingsProvider.getOutputType(activeFolder);
+
+  if (settingsProvider.rerunOnWatch && outputType === OutputTypes.executable) {
+    await runTaskCallback();
+  } else {
+    await buildTaskCallback(false);
+  }
+}
+
+function initDiagnosticsProvider() {
+  if (diagnosticsProvider) return;
+
+  diagnosticsProvider = new DiagnosticsProvider();
+
+  codeActionDiagnosticsDisposable =
+    vscode.languages.registerCodeActionsProvider(
+      [{ language: 'c' }, { language: 'cpp' }],
+      diagnosticsProvider,
+      {
+        providedCodeActionKinds: DiagnosticsProvider.providedCodeActionKinds,
+      },
+    );
+
+  extensionContext?.subscriptions.push(diagnosticsProvider);
+  extensionContext?.subscriptions.push(codeActionDiagnosticsDisposable);
+}
+
+function initBuildHistory() {
+  if (buildHistoryProvider) return;
+
+  buildHistoryProvider = new BuildHistoryProvider(workspaceFolder);
+
+  treeBuildHistoryDisposable = vscode.window.registerTreeDataProvider(
+    `${EXTENSION_NAME}.buildHistory`,
+    buildHistoryProvider,
+  );
+  extensionContext?.subscriptions.push(treeBuildHistoryDisposable);
+
+  const commandName = `${EXTENSION_NAME}.clearBuildHistory`;
+  commandClearBuildHistoryDisposable = vscode.commands.registerCommand(
+    commandName,
+    async () => {
+      await clearBuildHistory();
+      buildHistoryProvider?.refresh();
+      updateBuildStatus(buildStatusBar, showStatusBarItems, activeFolder);
+    },
+  );
+  extensionContext?.subscriptions.push(commandClearBuildHistoryDisposable);
+}
+
+function getLastBuild() {
+  if (!activeFolder) return undefined;
+
+  return getBuildHistory(activeFolder)[0];
+}
+
 async function generateAssemblerCallback() {
   if (!activeFolder) return;
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
+  if (!settingsProvider) return;
 
-  if (!pathExists(modeDir)) mkdirRecursive(modeDir);
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
 
-  if (!settingsProvider) return;
+  if (!pathExists(modeDir)) mkdirRecursive(modeDir);
 
   await generateAssemblerCode(settingsProvider, activeFolder, buildMode, true);
 }
 
+async function generatePreprocessedCallback() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== 'file') return;
+
+  const file = editor.document.uri.fsPath;
+  const fileExtension = path.extname(file).toLowerCase();
+
+  if (!isSourceFile(fileExtension) && !isHeaderFile(fileExtension)) {
+    vscode.window.showInformationMessage(
+      'The preprocessed code is only generated for C/C++ files.',
+    );
+    return;
+  }
+
+  if (!activeFolder) {
+    initProviderBasedOnSingleFile();
+  }
+
+  if (!activeFolder || !settingsProvider || !preprocessorProvider) return;
+
+  const preprocessedDocument = await generatePreprocessedCode(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    file,
+  );
+
+  if (!preprocessedDocument) return;
+
+  const uri = preprocessorProvider.update(file, preprocessedDocument);
+  const textDocument = await vscode.workspace.openTextDocument(uri);
+
+  await vscode.languages.setTextDocumentLanguage(
+    textDocument,
+    editor.document.languageId,
+  );
+  await vscode.window.showTextDocument(textDocument, {
+    viewColumn: vscode.ViewColumn.Beside,
+    preview: false,
+  });
+}
+
+async function showAssemblyViewCallback() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== 'file') return;
+
+  const file = editor.document.uri.fsPath;
+  const fileExtension = path.extname(file).toLowerCase();
+
+  if (!isSourceFile(fileExtension)) {
+    vscode.window.showInformationMessage(
+      'The assembly view is only available for C/C++ source files.',
+    );
+    return;
+  }
+
+  if (!activeFolder) {
+    initProviderBasedOnSingleFile();
+  }
+
+  const uri = await updateAssemblyView(file);
+  if (!uri) return;
+
+  const textDocument = await vscode.workspace.openTextDocument(uri);
+
+  await vscode.window.showTextDocument(textDocument, {
+    viewColumn: vscode.ViewColumn.Beside,
+    preserveFocus: true,
+    preview: false,
+  });
+
+  assemblyProvider?.updateDecorations();
+}
+
+async function updateAssemblyView(file: string) {
+  if (!activeFolder || !settingsProvider || !assemblyProvider) return;
+
+  const assemblyDocument = await generateAssemblyListing(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    file,
+  );
+
+  if (!assemblyDocument) return;
+
+  return assemblyProvider.update(file, assemblyDocument);
+}
+
+async function generateCompileCommandsCallback() {
+  if (!activeFolder || !settingsProvider) return;
+
+  const compileCommandsPath = await generateCompileCommands(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+  );
+
+  if (!compileCommandsPath) {
+    vscode.window.showWarningMessage('No source files found to compile.');
+    return;
+  }
+
+  propertiesProvider?.updateFileContent();
+  vscode.window.showInformationMessage(`Generated ${compileCommandsPath}`);
+}
+
 async function buildTaskCallback(singleFileBuild: boolean) {
   if (!activeFolder) return;
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
+  if (!settingsProvider) return;
+
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
 
   if (!pathExists(modeDir)) mkdirRecursive(modeDir);
 
-  if (!settingsProvider) return;
+  if (buildTaskExecution && settingsProvider.terminatePreviousBuild) {
+    await terminateTaskExecution(buildTaskExecution);
+  }
 
-  await executeBuildTask(
+  const compileCommandsPath =
+    settingsProvider.getCompileCommandsPath(activeFolder);
+  const hasCompileCommands = pathExists(compileCommandsPath);
+
+  buildTaskExecution = await executeBuildTask(
     settingsProvider,
     activeFolder,
     buildMode,
     singleFileBuild,
+    diagnosticsProvider,
+    buildFinishedCallback,
   );
+  updateStopStatusBar();
+
+  // Note: The first build creates the database for c_cpp_properties.json
+  if (!hasCompileCommands && pathExists(compileCommandsPath)) {
+    propertiesProvider?.updateFileContent();
+  }
 }
 
-async function runTaskCallback() {
-  if (!activeFolder) return;
+async function buildFinishedCallback(entry: BuildHistoryEntry) {
+  await addBuildHistoryEntry(entry);
+  buildHistoryProvider?.refresh();
 
-  const buildDir = path.join(activeFolder, 'build');
-  const modeDir = path.join(buildDir, `${buildMode}`);
+  if (entry.folder !== activeFolder) return;
 
-  if (!pathExists(modeDir)) return;
+  updateBuildStatus(buildStatusBar, showStatusBarItems, activeFolder, entry);
+}
+
+function isLibraryFolder() {
+  if (!activeFolder || !settingsProvider) return false;
+
+  const outputType = settingsProvider.getOutputType(activeFolder);
+  if (outputType === OutputTypes.executable) return false;
+
+  vscode.window.showInformationMessage(
+    `The active folder is built as ${outputType} and cannot be run or debugged.`,
+  );
+
+  return true;
+}
+
+async function buildIfStale(singleFileBuild: boolean) {
+  if (!activeFolder || !settingsProvider) return false;
+
+  const isStale = await isBuildStale(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    singleFileBuild,
+  );
+  if (!isStale) return true;
+
+  await buildTaskCallback(singleFileBuild);
+  if (buildTaskExecution) await waitForTaskExecution(buildTaskExecution);
+
+  // Note: A failed or stopped build leaves the target stale
+  return !(await isBuildStale(
+    settingsProvider,
+    activeFolder,
+    buildMode,
+    singleFileBuild,
+  ));
+}
+
+async function runTaskCallback(singleFileBuild: boolean = false) {
+  if (!activeFolder) return;
 
   if (!settingsProvider) {
     return;
   }
 
-  await executeRunTask(
+  if (!(await buildIfStale(singleFileBuild))) return;
+
+  const modeDir = settingsProvider.getModeDir(activeFolder, buildMode);
+
+  if (!pathExists(modeDir)) return;
+
+  runTaskExecution = await executeRunTask(
     activeFolder,
-    buildMode,
+    settingsProvider.getTargetPath(
+      activeFolder,
+      buildMode,
+      OutputTypes.executable,
+    ),
     argumentsString,
-    settingsProvider.operatingSystem,
+    settingsProvider.getEmulator(),
   );
+  updateStopStatusBar();
 }
 
 async function cleanTaskCallback() {
@@ -736,15 +1343,21 @@ async function cleanTaskCallback() {
 
   await executeCleanTask(
     activeFolder,
-    buildMode,
+    settingsProvider.getModeDir(activeFolder, buildMode),
     workspaceFolder,
     settingsProvider.operatingSystem,
   );
 }
 
-function debugTaskCallback() {
+async function debugTaskCallback(singleFileBuild: boolean = false) {
   if (!activeFolder) return;
   if (!workspaceFolder) return;
+  if (!settingsProvider) return;
+
+  if (!(await buildIfStale(singleFileBuild))) return;
 
-  runDebugger(activeFolder, workspaceFolder, buildMode);
+  runDebugger(
+    workspaceFolder,
+    settingsProvider.getModeDir(activeFolder, buildMode),
+  );
 }
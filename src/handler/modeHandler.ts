@@ -1,19 +1,20 @@
 import * as vscode from 'vscode';
 
+import { SettingsProvider } from '../provider/settingsProvider';
 import { Builds } from '../utils/types';
 
-export async function modeHandler() {
-  const combinations = [Builds.debug, Builds.release];
+export async function modeHandler(
+  settingsProvider: SettingsProvider | undefined,
+) {
+  const combinations = settingsProvider
+    ? settingsProvider.getBuildModes().map((buildMode) => buildMode.name)
+    : [Builds.debug, Builds.release];
 
-  const pickedCombination = await vscode.window.showQuickPick(combinations, {
+  const pickedMode = await vscode.window.showQuickPick(combinations, {
     placeHolder: 'Select a build mode',
   });
 
-  if (!pickedCombination) return undefined;
-
-  const pickedMode = pickedCombination.includes(Builds.debug)
-    ? Builds.debug
-    : Builds.release;
+  if (!pickedMode) return undefined;
 
   return pickedMode;
 }
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+
+import { SettingsProvider } from '../provider/settingsProvider';
+import { C_STANDARDS, CPP_STANDARDS } from '../utils/capabilityUtils';
+import { getLanguage } from '../utils/fileUtils';
+import { Languages } from '../utils/types';
+
+interface StandardItem extends vscode.QuickPickItem {
+  language?: Languages;
+  standard?: string;
+}
+
+export async function standardHandler(settingsProvider: SettingsProvider) {
+  const capabilities = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: 'Probing compiler',
+    },
+    () =>
+      settingsProvider.getCompilerCapabilities(
+        getLanguage(settingsProvider.activeFolder),
+      ),
+  );
+
+  // Note: The MSVC compiler is not probed, so every standard is offered
+  const cStandards = capabilities ? capabilities.cStandards : C_STANDARDS;
+  const cppStandards = capabilities ? capabilities.cppStandards : CPP_STANDARDS;
+
+  const items: StandardItem[] = [
+    ...getStandardItems(Languages.c, cStandards, settingsProvider.cStandard),
+    ...getStandardItems(
+      Languages.cpp,
+      cppStandards,
+      settingsProvider.cppStandard,
+    ),
+  ];
+
+  const pickedItem = await vscode.window.showQuickPick(items, {
+    placeHolder: capabilities
+      ? `Select a standard supported by the compilers (C ${capabilities.cVersion}, C++ ${capabilities.cppVersion})`
+      : 'Select a standard',
+  });
+
+  if (!pickedItem || !pickedItem.language) return undefined;
+
+  return {
+    language: pickedItem.language,
+    standard: pickedItem.standard ? pickedItem.standard : '',
+  };
+}
+
+function getStandardItems(
+  language: Languages,
+  standards: string[],
+  activeStandard: string,
+) {
+  const items: StandardItem[] = [
+    {
+      label: language === Languages.c ? 'C' : 'C++',
+      kind: vscode.QuickPickItemKind.Separator,
+    },
+  ];
+
+  for (const standard of ['', ...standards]) {
+    items.push({
+      label: standard ? standard : 'default',
+      description: standard === activeStandard ? 'active' : undefined,
+      language: language,
+      standard: standard,
+    });
+  }
+
+  return items;
+}
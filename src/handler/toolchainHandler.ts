@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+
+import { SettingsProvider } from '../provider/settingsProvider';
+import { replaceBackslashes } from '../utils/fileUtils';
+import { getOperatingSystem } from '../utils/systemUtils';
+import { findCompilerSets } from '../utils/toolchainUtils';
+
+export async function toolchainHandler(
+  settingsProvider: SettingsProvider | undefined,
+) {
+  const operatingSystem = settingsProvider
+    ? settingsProvider.operatingSystem
+    : getOperatingSystem();
+
+  const compilerSets = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: 'Searching compilers',
+    },
+    () => findCompilerSets(operatingSystem),
+  );
+
+  if (compilerSets.length === 0) {
+    vscode.window.showWarningMessage('No GCC or Clang compilers were found.');
+    return undefined;
+  }
+
+  const items = compilerSets.map((compilerSet) => {
+    const isActive =
+      settingsProvider !== undefined &&
+      !settingsProvider.useMsvc &&
+      settingsProvider.cCompilerPath === compilerSet.cCompilerPath;
+
+    return {
+      label: `${compilerSet.compiler === 'gcc' ? 'GCC' : 'Clang'} ${
+        compilerSet.version
+      }`,
+      description: `${replaceBackslashes(compilerSet.cCompilerPath)}${
+        isActive ? ' (active)' : ''
+      }`,
+      detail: `${replaceBackslashes(
+        compilerSet.cppCompilerPath,
+      )} | ${replaceBackslashes(compilerSet.debuggerPath)}`,
+      compilerSet: compilerSet,
+    };
+  });
+
+  const pickedItem = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a toolchain',
+    matchOnDescription: true,
+  });
+
+  if (!pickedItem) return undefined;
+
+  return pickedItem.compilerSet;
+}
@@ -2,7 +2,7 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { replaceBackslashes } from '../utils/fileUtils';
-import { Builds } from '../utils/types';
+import { BuildHistoryEntry } from '../utils/types';
 
 export function updateFolderStatus(
   status: vscode.StatusBarItem | undefined,
@@ -44,7 +44,7 @@ export function updateModeStatus(
   status: vscode.StatusBarItem | undefined,
   showStatusBarItems: boolean,
   activeFolder: string | undefined,
-  buildMode: Builds,
+  buildMode: string,
 ) {
   if (!status) return;
 
@@ -56,10 +56,28 @@ export function updateBuildStatus(
   status: vscode.StatusBarItem | undefined,
   showStatusBarItems: boolean,
   activeFolder: string | undefined,
+  lastBuild?: BuildHistoryEntry,
 ) {
   if (!status) return;
 
   status.text = `$(gear)`;
+  status.tooltip = 'Start Compilation';
+
+  if (lastBuild) {
+    const duration = `${(lastBuild.duration / 1000).toFixed(1)}s`;
+
+    if (lastBuild.exitCode === 0) {
+      status.text += ` $(check) ${duration}`;
+    } else {
+      status.text += ` $(error) ${lastBuild.errors}`;
+    }
+    if (lastBuild.warnings > 0)
+      status.text += ` $(warning) ${lastBuild.warnings}`;
+
+    const result = lastBuild.exitCode === 0 ? 'succeeded' : 'failed';
+    status.tooltip += ` (last ${lastBuild.mode} build ${result} in ${duration})`;
+  }
+
   toggleShow(status, showStatusBarItems, activeFolder);
 }
 
@@ -96,6 +114,23 @@ export function updateCleanStatus(
   toggleShow(status, showStatusBarItems, activeFolder);
 }
 
+export function updateStopStatus(
+  status: vscode.StatusBarItem | undefined,
+  showStatusBarItems: boolean,
+  activeFolder: string | undefined,
+  runningTasks: string[],
+) {
+  if (!status) return;
+
+  status.text = `$(debug-stop) ${runningTasks.join(', ')}`;
+  status.tooltip = `Stop ${runningTasks.join(' and ')}`;
+  toggleShow(
+    status,
+    showStatusBarItems && runningTasks.length > 0,
+    activeFolder,
+  );
+}
+
 function toggleShow(
   status: vscode.StatusBarItem | undefined,
   showStatusBarItems: boolean,
@@ -0,0 +1,198 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { isHeaderFile } from '../utils/fileUtils';
+import { AssemblyDocument } from '../utils/types';
+
+const BLOCK_COLORS = [
+  'rgba(255, 99, 71, 0.15)',
+  'rgba(60, 179, 113, 0.15)',
+  'rgba(65, 105, 225, 0.15)',
+  'rgba(255, 215, 0, 0.15)',
+  'rgba(186, 85, 211, 0.15)',
+  'rgba(0, 206, 209, 0.15)',
+];
+
+interface AssemblyView {
+  sourceFile: string;
+  document: AssemblyDocument;
+}
+
+export class AssemblyProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'c-cpp-runner-assembly';
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private _views = new Map<string, AssemblyView>();
+  private _blockDecorations: vscode.TextEditorDecorationType[];
+  private _highlightDecoration: vscode.TextEditorDecorationType;
+  private _disposables: vscode.Disposable[] = [];
+
+  public onDidChange: vscode.Event<vscode.Uri>;
+
+  constructor(private _onDidSaveSource: (sourceFile: string) => void) {
+    this.onDidChange = this._onDidChange.event;
+
+    this._blockDecorations = BLOCK_COLORS.map((color) =>
+      vscode.window.createTextEditorDecorationType({
+        backgroundColor: color,
+        isWholeLine: true,
+      }),
+    );
+    this._highlightDecoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor(
+        'editor.findMatchHighlightBackground',
+      ),
+      border: '1px solid',
+      borderColor: new vscode.ThemeColor('editor.findMatchBorder'),
+      isWholeLine: true,
+    });
+
+    this._disposables.push(
+      vscode.workspace.onDidSaveTextDocument((e) => this.saveCallback(e)),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.document.uri.scheme === AssemblyProvider.scheme) {
+          this.updateDecorations();
+        }
+      }),
+      vscode.window.onDidChangeVisibleTextEditors(() =>
+        this.updateDecorations(),
+      ),
+      vscode.window.onDidChangeTextEditorSelection((e) =>
+        this.selectionCallback(e),
+      ),
+    );
+  }
+
+  public update(sourceFile: string, document: AssemblyDocument) {
+    const uri = vscode.Uri.file(`${sourceFile}.s`).with({
+      scheme: AssemblyProvider.scheme,
+    });
+
+    this._views.set(uri.toString(), {
+      sourceFile: sourceFile,
+      document: document,
+    });
+    this._onDidChange.fire(uri);
+
+    return uri;
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri) {
+    const view = this._views.get(uri.toString());
+
+    return view ? view.document.content : '';
+  }
+
+  public updateDecorations() {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const uri = editor.document.uri;
+      const blockRanges: vscode.Range[][] = BLOCK_COLORS.map(() => []);
+
+      if (uri.scheme === AssemblyProvider.scheme) {
+        const view = this._views.get(uri.toString());
+        if (!view) continue;
+
+        view.document.sourceLines.forEach((sourceLine, line) => {
+          if (sourceLine === 0 || line >= editor.document.lineCount) return;
+
+          blockRanges[sourceLine % BLOCK_COLORS.length]?.push(
+            editor.document.lineAt(line).range,
+          );
+        });
+      } else if (uri.scheme === 'file') {
+        const view = this.getViewOfSourceFile(uri.fsPath);
+        if (!view) continue;
+
+        // Note: A source line keeps the same color as its assembly block
+        const sourceLines = this.isViewVisible(view)
+          ? view.document.sourceLines
+          : [];
+
+        for (const sourceLine of new Set(sourceLines)) {
+          if (sourceLine === 0 || sourceLine > editor.document.lineCount) {
+            continue;
+          }
+
+          blockRanges[sourceLine % BLOCK_COLORS.length]?.push(
+            editor.document.lineAt(sourceLine - 1).range,
+          );
+        }
+      } else {
+        continue;
+      }
+
+      this._blockDecorations.forEach((decoration, index) =>
+        editor.setDecorations(decoration, blockRanges[index] ?? []),
+      );
+    }
+  }
+
+  public dispose() {
+    this._disposables.forEach((disposable) => disposable.dispose());
+    this._blockDecorations.forEach((decoration) => decoration.dispose());
+    this._highlightDecoration.dispose();
+    this._onDidChange.dispose();
+    this._views.clear();
+  }
+
+  private getViewOfSourceFile(sourceFile: string) {
+    for (const view of this._views.values()) {
+      if (view.sourceFile === sourceFile) return view;
+    }
+
+    return undefined;
+  }
+
+  private saveCallback(document: vscode.TextDocument) {
+    if (document.uri.scheme !== 'file') return;
+
+    const file = document.uri.fsPath;
+    const isHeader = isHeaderFile(path.extname(file).toLowerCase());
+
+    // Note: Changed headers may change the code of every shown source file
+    for (const view of this._views.values()) {
+      if (view.sourceFile !== file && !isHeader) continue;
+      if (!this.isViewVisible(view)) continue;
+
+      this._onDidSaveSource(view.sourceFile);
+    }
+  }
+
+  private selectionCallback(e: vscode.TextEditorSelectionChangeEvent) {
+    if (e.textEditor.document.uri.scheme !== 'file') return;
+
+    const view = this.getViewOfSourceFile(e.textEditor.document.uri.fsPath);
+    if (!view) return;
+
+    const sourceLine = e.selections[0]
+      ? e.selections[0].active.line + 1
+      : undefined;
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document.uri.scheme !== AssemblyProvider.scheme) continue;
+      if (this._views.get(editor.document.uri.toString()) !== view) continue;
+
+      const ranges: vscode.Range[] = [];
+      view.document.sourceLines.forEach((line, index) => {
+        if (line !== sourceLine || index >= editor.document.lineCount) return;
+
+        ranges.push(editor.document.lineAt(index).range);
+      });
+
+      editor.setDecorations(this._highlightDecoration, ranges);
+
+      if (ranges[0]) {
+        editor.revealRange(
+          ranges[0],
+          vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+        );
+      }
+    }
+  }
+
+  private isViewVisible(view: AssemblyView) {
+    return vscode.window.visibleTextEditors.some(
+      (editor) => this._views.get(editor.document.uri.toString()) === view,
+    );
+  }
+}
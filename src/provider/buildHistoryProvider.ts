@@ -0,0 +1,74 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { replaceBackslashes } from '../utils/fileUtils';
+import { BuildHistoryEntry } from '../utils/types';
+import { getBuildHistory } from '../utils/vscodeUtils';
+
+type BuildHistoryElement = string | BuildHistoryEntry;
+type BuildHistoryTree = vscode.TreeDataProvider<BuildHistoryElement>;
+
+export class BuildHistoryProvider implements BuildHistoryTree {
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    BuildHistoryElement | undefined
+  >();
+
+  public onDidChangeTreeData: vscode.Event<BuildHistoryElement | undefined>;
+
+  constructor(public workspaceFolder: string | undefined) {
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+  }
+
+  public refresh() {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public getChildren(element?: BuildHistoryElement) {
+    if (element === undefined) {
+      const folders = getBuildHistory().map((entry) => entry.folder);
+      return [...new Set(folders)];
+    }
+
+    if (typeof element === 'string') return getBuildHistory(element);
+
+    return [];
+  }
+
+  public getTreeItem(element: BuildHistoryElement) {
+    if (typeof element === 'string') {
+      const treeItem = new vscode.TreeItem(
+        this.getFolderLabel(element),
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      treeItem.iconPath = new vscode.ThemeIcon('folder');
+      treeItem.tooltip = element;
+
+      return treeItem;
+    }
+
+    const treeItem = new vscode.TreeItem(
+      new Date(element.timestamp).toLocaleString(),
+      vscode.TreeItemCollapsibleState.None,
+    );
+    const duration = `${(element.duration / 1000).toFixed(1)}s`;
+
+    treeItem.description = `${element.mode} | ${duration} | ${element.warnings} warnings | ${element.errors} errors`;
+    treeItem.iconPath = new vscode.ThemeIcon(
+      element.exitCode === 0 ? 'pass' : 'error',
+    );
+    treeItem.tooltip = `Exit code: ${element.exitCode}\n\n${element.commandLine}`;
+
+    return treeItem;
+  }
+
+  private getFolderLabel(folder: string) {
+    if (!this.workspaceFolder) return folder;
+
+    const workspaceName = path.basename(this.workspaceFolder);
+    const relativeFolder = path.relative(this.workspaceFolder, folder);
+
+    if (relativeFolder.startsWith('..')) return replaceBackslashes(folder);
+
+    return replaceBackslashes(path.join(workspaceName, relativeFolder));
+  }
+}
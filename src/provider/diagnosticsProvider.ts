@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+
+import {
+  CompilerDiagnostic,
+  DiagnosticFixIt,
+  DiagnosticLevels,
+  DiagnosticRange,
+} from '../utils/types';
+
+const EXTENSION_NAME = 'C_Cpp_Runner';
+const DIAGNOSTICS_SOURCE = 'C/C++ Runner';
+
+export class DiagnosticsProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+  ];
+
+  private _diagnostics: vscode.DiagnosticCollection;
+  private _fixIts = new Map<string, DiagnosticFixIt[]>();
+  private _unitDiagnostics = new Map<string, CompilerDiagnostic[]>();
+
+  constructor() {
+    this._diagnostics =
+      vscode.languages.createDiagnosticCollection(EXTENSION_NAME);
+  }
+
+  // Note: Up to date files are not recompiled, so their diagnostics are kept
+  public clear(keptUnits: string[]) {
+    for (const unit of [...this._unitDiagnostics.keys()]) {
+      if (!keptUnits.includes(unit)) this._unitDiagnostics.delete(unit);
+    }
+
+    this._diagnostics.clear();
+    this._fixIts.clear();
+
+    for (const unitDiagnostics of this._unitDiagnostics.values()) {
+      unitDiagnostics.forEach((diagnostic) => this.addDiagnostic(diagnostic));
+    }
+  }
+
+  public publish(unit: string, compilerDiagnostics: CompilerDiagnostic[]) {
+    const unitDiagnostics = this._unitDiagnostics.get(unit);
+    this._unitDiagnostics.set(unit, [
+      ...(unitDiagnostics ? unitDiagnostics : []),
+      ...compilerDiagnostics,
+    ]);
+
+    compilerDiagnostics.forEach((diagnostic) => this.addDiagnostic(diagnostic));
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ) {
+    const codeActions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTICS_SOURCE) continue;
+
+      const fixIts = this._fixIts.get(
+        getDiagnosticKey(document.uri, diagnostic),
+      );
+
+      if (fixIts) {
+        const codeAction = new vscode.CodeAction(
+          `Apply fix-it: ${diagnostic.message}`,
+          vscode.CodeActionKind.QuickFix,
+        );
+        codeAction.edit = new vscode.WorkspaceEdit();
+        for (const fixIt of fixIts) {
+          codeAction.edit.replace(
+            vscode.Uri.file(fixIt.range.file),
+            toRange(fixIt.range),
+            fixIt.replacement,
+          );
+        }
+        codeAction.diagnostics = [diagnostic];
+        codeAction.isPreferred = true;
+        codeActions.push(codeAction);
+      }
+
+      const relatedInformation = diagnostic.relatedInformation
+        ? diagnostic.relatedInformation
+        : [];
+
+      for (const related of relatedInformation) {
+        const title = `Go to related location: ${related.message}`;
+        const codeAction = new vscode.CodeAction(
+          title,
+          vscode.CodeActionKind.QuickFix,
+        );
+        codeAction.command = {
+          title: title,
+          command: 'vscode.open',
+          arguments: [
+            related.location.uri,
+            { selection: related.location.range },
+          ],
+        };
+        codeAction.diagnostics = [diagnostic];
+        codeActions.push(codeAction);
+      }
+    }
+
+    return codeActions;
+  }
+
+  private addDiagnostic(compilerDiagnostic: CompilerDiagnostic) {
+    if (!compilerDiagnostic.range) return;
+
+    const uri = vscode.Uri.file(compilerDiagnostic.range.file);
+    const diagnostic = new vscode.Diagnostic(
+      toRange(compilerDiagnostic.range),
+      compilerDiagnostic.message,
+      toSeverity(compilerDiagnostic.level),
+    );
+    diagnostic.source = DIAGNOSTICS_SOURCE;
+    if (compilerDiagnostic.option) {
+      diagnostic.code = compilerDiagnostic.option;
+    }
+
+    diagnostic.relatedInformation = compilerDiagnostic.related.map(
+      (related) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(
+            vscode.Uri.file(related.range.file),
+            toRange(related.range),
+          ),
+          related.message,
+        ),
+    );
+
+    const key = getDiagnosticKey(uri, diagnostic);
+    const fileDiagnostics = this._diagnostics.get(uri);
+
+    // Note: Diagnostics of headers are reported by every translation unit
+    if (
+      fileDiagnostics &&
+      fileDiagnostics.some(
+        (fileDiagnostic) => getDiagnosticKey(uri, fileDiagnostic) === key,
+      )
+    ) {
+      return;
+    }
+
+    this._diagnostics.set(uri, [
+      ...(fileDiagnostics ? fileDiagnostics : []),
+      diagnostic,
+    ]);
+
+    if (compilerDiagnostic.fixIts.length > 0) {
+      this._fixIts.set(key, compilerDiagnostic.fixIts);
+    }
+  }
+
+  public dispose() {
+    this._diagnostics.dispose();
+  }
+}
+
+function toRange(range: DiagnosticRange) {
+  // Note: The compiler positions are 1-based
+  return new vscode.Range(
+    Math.max(range.startLine - 1, 0),
+    Math.max(range.startColumn - 1, 0),
+    Math.max(range.endLine - 1, 0),
+    Math.max(range.endColumn - 1, 0),
+  );
+}
+
+function toSeverity(level: DiagnosticLevels) {
+  let severity = vscode.DiagnosticSeverity.Information;
+
+  if (level === DiagnosticLevels.error) {
+    severity = vscode.DiagnosticSeverity.Error;
+  } else if (level === DiagnosticLevels.warning) {
+    severity = vscode.DiagnosticSeverity.Warning;
+  }
+
+  return severity;
+}
+
+function getDiagnosticKey(uri: vscode.Uri, diagnostic: vscode.Diagnostic) {
+  const range = diagnostic.range;
+
+  return `${uri.fsPath}:${range.start.line}:${range.start.character}:${diagnostic.message}`;
+}
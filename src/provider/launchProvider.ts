@@ -1,7 +1,5 @@
-import * as path from 'path';
-
+import { parseArguments, quoteArgument } from '../utils/commandUtils';
 import {
-	getOccurenceIndicies,
 	pathExists,
 	readJsonFile,
 	replaceBackslashes,
@@ -12,6 +10,7 @@ import {
 	Debuggers,
 	JsonLaunchConfig,
 	OperatingSystems,
+	OutputTypes,
 } from '../utils/types';
 import { getLaunchConfigIndex } from '../utils/vscodeUtils';
 import { FileProvider } from './fileProvider';
@@ -20,9 +19,10 @@ import { SettingsProvider } from './settingsProvider';
 const TEMPLATE_FILENAME = 'launch_template.json';
 const OUTPUT_FILENAME = 'launch.json';
 const CONFIG_NAME = 'C/C++ Runner: Debug Session';
+const EMULATOR_GDB_PORT = '1234';
 
 export class LaunchProvider extends FileProvider {
-  public buildMode: Builds = Builds.debug;
+  public buildMode: string = Builds.debug;
   public argumentsString: string[] | undefined;
 
   constructor(
@@ -129,59 +129,14 @@ export class LaunchProvider extends FileProvider {
     super._updateFolderData(workspaceFolder);
   }
 
-  public updateModeData(buildMode: Builds) {
+  public updateModeData(buildMode: string) {
     this.buildMode = buildMode;
   }
 
   public updateArgumentsData(argumentsString: string | undefined) {
     if (argumentsString === undefined) return;
 
-    if (argumentsString === '') {
-      this.argumentsString = [];
-      return;
-    }
-
-    if (!argumentsString.includes(' ')) {
-      this.argumentsString = [argumentsString];
-    }
-
-    if (!argumentsString.includes('"')) {
-      this.argumentsString = argumentsString.split(' ');
-      return;
-    }
-
-    const indicies = getOccurenceIndicies(argumentsString, '"');
-    this.argumentsString = [];
-
-    const strsToReplace: string[] = [];
-    if (!indicies || indicies.length < 2) return;
-
-    for (let i = 0; i < indicies.length; i += 2) {
-      const sub = argumentsString.slice(
-        (indicies[i] as number) + 1,
-        indicies[i + 1],
-      );
-      this.argumentsString.push(sub);
-      strsToReplace.push(sub);
-    }
-
-    for (const strReplace of strsToReplace) {
-      argumentsString = argumentsString.replace(strReplace, '');
-    }
-
-    argumentsString = argumentsString.replace(/"/g, '');
-    if (argumentsString.startsWith(' ')) {
-      argumentsString = argumentsString.slice(1);
-    }
-    if (argumentsString.endsWith(' ')) {
-      argumentsString = argumentsString.slice(0, argumentsString.length - 2);
-    }
-
-    this.argumentsString.push(
-      ...argumentsString.split(' ').filter((str: string) => Boolean(str)),
-    );
-
-    this.argumentsString.map((str: string) => str.replace(/"/g, ''));
+    this.argumentsString = parseArguments(argumentsString);
   }
 
   public changeCallback() {
@@ -223,9 +178,10 @@ export class LaunchProvider extends FileProvider {
       this.activeFolder,
     );
 
-    const debugPath = path.join(
+    const debugPath = this.settings.getTargetPath(
       this.activeFolder,
-      `build/${this.buildMode}/out${this.buildMode}`,
+      this.buildMode,
+      OutputTypes.executable,
     );
     launchTemplate.configurations[0].program = replaceBackslashes(debugPath);
 
@@ -236,14 +192,14 @@ export class LaunchProvider extends FileProvider {
     if (launchTemplate.configurations[0] === undefined) return;
 
     launchTemplate.configurations[0].name = CONFIG_NAME;
-    if (this.settings.debuggerPath) {
-      launchTemplate.configurations[0].MIMode = this.settings.debuggerPath
+    const debuggerPath = this.settings.getDebuggerPath();
+    if (debuggerPath) {
+      launchTemplate.configurations[0].MIMode = debuggerPath
         .toLowerCase()
         .includes(Debuggers.gdb)
         ? Debuggers.gdb
         : Debuggers.lldb;
-      launchTemplate.configurations[0].miDebuggerPath =
-        this.settings.debuggerPath;
+      launchTemplate.configurations[0].miDebuggerPath = debuggerPath;
     } else {
       launchTemplate.configurations[0].MIMode =
         SettingsProvider.DEFAULT_DEBUGGER_PATH_NON_MAC;
@@ -280,9 +236,10 @@ export class LaunchProvider extends FileProvider {
       launchTemplate.configurations[0].cwd = this.activeFolder;
     }
 
-    const debugPath = path.join(
+    const debugPath = this.settings.getTargetPath(
       this.activeFolder,
-      `build/${this.buildMode}/out${this.buildMode}`,
+      this.buildMode,
+      OutputTypes.executable,
     );
     if (this.settings.operatingSystem === OperatingSystems.windows) {
       launchTemplate.configurations[0].program = replaceBackslashes(debugPath);
@@ -290,6 +247,46 @@ export class LaunchProvider extends FileProvider {
       launchTemplate.configurations[0].program = debugPath;
     }
 
+    this.emulatorDebugger(launchTemplate, debugPath);
+
     return launchTemplate;
   }
+
+  private emulatorDebugger(
+    launchTemplate: JsonLaunchConfig,
+    debugPath: string,
+  ) {
+    const emulator = this.settings.getEmulator();
+    const config = launchTemplate.configurations[0];
+
+    if (!emulator || !config) return;
+
+    // Note: The emulator waits on its gdb stub until the debugger connects
+    const emulatorArgs = [
+      ...emulator.args,
+      '-g',
+      EMULATOR_GDB_PORT,
+      debugPath,
+      ...(this.argumentsString ? this.argumentsString : []),
+    ];
+
+    config.MIMode = Debuggers.gdb;
+    config.miDebuggerServerAddress = `localhost:${EMULATOR_GDB_PORT}`;
+    config.debugServerPath = emulator.program;
+    config.debugServerArgs = emulatorArgs
+      .map((arg) => quoteArgument(arg, this.settings.operatingSystem))
+      .join(' ');
+
+    const sysroot = this.settings.getToolchain()?.sysroot;
+    if (sysroot) {
+      config.setupCommands = [
+        ...(config.setupCommands ? config.setupCommands : []),
+        {
+          description: 'Set the sysroot of the target',
+          text: `set sysroot ${sysroot}`,
+          ignoreFailures: true,
+        },
+      ];
+    }
+  }
 }
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+
+import { PreprocessedDocument } from '../utils/types';
+
+type PreprocessorDocumentProvider = vscode.TextDocumentContentProvider &
+  vscode.DocumentLinkProvider;
+
+export class PreprocessorProvider implements PreprocessorDocumentProvider {
+  public static readonly scheme = 'c-cpp-runner-preprocessed';
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private _documents = new Map<string, PreprocessedDocument>();
+
+  public onDidChange: vscode.Event<vscode.Uri>;
+
+  constructor() {
+    this.onDidChange = this._onDidChange.event;
+  }
+
+  public update(sourceFile: string, document: PreprocessedDocument) {
+    const uri = vscode.Uri.file(`${sourceFile}.i`).with({
+      scheme: PreprocessorProvider.scheme,
+    });
+
+    this._documents.set(uri.toString(), document);
+    this._onDidChange.fire(uri);
+
+    return uri;
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri) {
+    const document = this._documents.get(uri.toString());
+
+    return document ? document.content : '';
+  }
+
+  public provideDocumentLinks(textDocument: vscode.TextDocument) {
+    const document = this._documents.get(textDocument.uri.toString());
+
+    if (!document) return [];
+
+    // Note: The location comments link back to the lines of the source files
+    return document.locations
+      .filter((location) => location.line < textDocument.lineCount)
+      .map((location) => {
+        const link = new vscode.DocumentLink(
+          textDocument.lineAt(location.line).range,
+          vscode.Uri.file(location.file).with({
+            fragment: `L${location.sourceLine}`,
+          }),
+        );
+        link.tooltip = 'Go to source line';
+
+        return link;
+      });
+  }
+
+  public dispose() {
+    this._onDidChange.dispose();
+    this._documents.clear();
+  }
+}
@@ -1,17 +1,20 @@
 import * as path from 'path';
 
+import { getToolchainArgsUnix } from '../utils/compilerUtils';
 import {
-	pathExists,
-	readJsonFile,
-	replaceBackslashes,
-	writeJsonFile,
+  pathExists,
+  readJsonFile,
+  replaceBackslashes,
+  writeJsonFile,
 } from '../utils/fileUtils';
-import { commandExists } from '../utils/systemUtils';
+import { commandExists, getPkgConfigFlags } from '../utils/systemUtils';
 import {
-	Architectures,
-	CompilerSystems,
-	JsonPropertiesConfig,
-	OperatingSystems,
+  Architectures,
+  Builds,
+  CompilerSystems,
+  JsonPropertiesConfig,
+  Languages,
+  OperatingSystems,
 } from '../utils/types';
 import { FileProvider } from './fileProvider';
 import { SettingsProvider } from './settingsProvider';
@@ -21,7 +24,9 @@ const OUTPUT_FILENAME = 'c_cpp_properties.json';
 const INCLUDE_PATTERN = '${workspaceFolder}/**';
 
 export class PropertiesProvider extends FileProvider {
+  public buildMode: string = Builds.debug;
   protected lastConfig: JsonPropertiesConfig | undefined;
+  private generatedDefines: string[] = [];
   constructor(
     protected settings: SettingsProvider,
     public workspaceFolder: string,
@@ -105,9 +110,14 @@ export class PropertiesProvider extends FileProvider {
 
     if (configLocalEntry === undefined) return;
 
-    if (this.settings.includePaths.length > 0) {
+    const includePaths = [
+      ...this.settings.includePaths,
+      ...(await this.getPkgConfigIncludePaths()),
+    ];
+
+    if (includePaths.length > 0) {
       configLocalEntry.includePath = [INCLUDE_PATTERN];
-      for (const path of this.settings.includePaths) {
+      for (const path of includePaths) {
         const includePathSet = new Set(configLocalEntry.includePath);
         if (
           !includePathSet.has(path) &&
@@ -138,6 +148,19 @@ export class PropertiesProvider extends FileProvider {
       configLocalEntry.cStandard = 'c11';
     }
 
+    // Note: User defines are kept, the defines of the settings are replaced
+    const generatedDefines = new Set([
+      ...this.generatedDefines,
+      ...this.settings.defines,
+      ...this.settings.getBuildModes().flatMap((mode) => mode.defines),
+    ]);
+    const defines = configLocalEntry.defines ? configLocalEntry.defines : [];
+    this.generatedDefines = this.settings.getDefines(this.buildMode);
+    configLocalEntry.defines = [
+      ...defines.filter((define) => !generatedDefines.has(define)),
+      ...this.generatedDefines,
+    ];
+
     configLocalEntry.cppStandard = this.settings.cppStandard
       ? this.settings.cppStandard
       : '${default}';
@@ -148,11 +171,13 @@ export class PropertiesProvider extends FileProvider {
         SettingsProvider.MSVC_COMPILER_NAME,
       );
     } else {
-      if (pathExists(this.settings.cCompilerPath)) {
-        configLocalEntry.compilerPath = this.settings.cCompilerPath;
+      const compilerPath = this.settings.getCompilerPath(Languages.c);
+
+      if (pathExists(compilerPath)) {
+        configLocalEntry.compilerPath = compilerPath;
       } else {
         // non-absolute compiler path
-        const ret = await commandExists(this.settings.cCompilerPath);
+        const ret = await commandExists(compilerPath);
 
         if (
           !ret ||
@@ -160,11 +185,23 @@ export class PropertiesProvider extends FileProvider {
           ret.p.includes('perl') ||
           ret.p.includes('ruby')
         ) {
-          configLocalEntry.compilerPath = this.settings.cCompilerPath;
+          configLocalEntry.compilerPath = compilerPath;
         } else {
           configLocalEntry.compilerPath = replaceBackslashes(ret.p);
         }
       }
+
+      // Note: IntelliSense needs the sysroot and target of the toolchain
+      const compilerArgs = configLocalEntry.compilerArgs
+        ? configLocalEntry.compilerArgs
+        : [];
+      configLocalEntry.compilerArgs = [
+        ...compilerArgs.filter(
+          (arg) =>
+            !arg.startsWith('--sysroot=') && !arg.startsWith('--target='),
+        ),
+        ...getToolchainArgsUnix(this.settings.getToolchain(), compilerPath),
+      ];
     }
 
     // Since C/C++ Extension Version 1.4.0 cygwin is a linux triplet
@@ -180,10 +217,42 @@ export class PropertiesProvider extends FileProvider {
       configLocalEntry.intelliSenseMode = triplet;
     }
 
+    const compileCommandsPath = this.activeFolder
+      ? this.settings.getCompileCommandsPath(this.activeFolder)
+      : undefined;
+
+    // Note: cpptools reports errors for a database that does not exist yet
+    if (compileCommandsPath && pathExists(compileCommandsPath)) {
+      configLocalEntry.compileCommands =
+        replaceBackslashes(compileCommandsPath);
+    } else {
+      delete configLocalEntry.compileCommands;
+    }
+
     writeJsonFile(this._outputPath, configLocal);
   }
 
-  public updateFolderData(workspaceFolder: string) {
+  public updateModeData(buildMode: string) {
+    this.buildMode = buildMode;
+  }
+
+  private async getPkgConfigIncludePaths() {
+    if (this.settings.useMsvc) return [];
+
+    const pkgConfigArgs = await getPkgConfigFlags(
+      this.settings.pkgConfigPackages,
+      this.settings.getToolchain()?.sysroot,
+    );
+
+    if (!pkgConfigArgs) return [];
+
+    return pkgConfigArgs.compilerArgs
+      .filter((arg) => arg.startsWith('-I'))
+      .map((arg) => arg.slice(2));
+  }
+
+  public updateFolderData(workspaceFolder: string, activeFolder: string) {
+    this.activeFolder = activeFolder;
     super._updateFolderData(workspaceFolder);
   }
 
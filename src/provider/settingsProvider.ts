@@ -1,6 +1,10 @@
+import * as minimatch from 'minimatch';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+import { getCompilerCapabilities } from '../utils/capabilityUtils';
+import { getToolchainArgsUnix } from '../utils/compilerUtils';
+import { isRecord } from '../utils/general';
 import {
   foldersInDir,
   localSettingExist,
@@ -11,21 +15,82 @@ import {
 } from '../utils/fileUtils';
 import {
   getCompilerArchitecture,
+  getEmulatorArchitecture,
+  getHostArchitecture,
+  getMachineArchitecture,
   getOperatingSystem,
 } from '../utils/systemUtils';
 import {
   Architectures,
+  BuildMode,
+  Builds,
+  Command,
+  CompilerSet,
   CompilerSystems,
   JsonPropertiesConfig,
   JsonPropertiesConfigEntry,
   JsonSettings,
+  Languages,
   OperatingSystems,
+  OutputTypes,
+  Toolchain,
 } from '../utils/types';
 import { FileProvider } from './fileProvider';
 
 const OUTPUT_FILENAME = 'settings.json';
 const EXTENSION_NAME = 'C_Cpp_Runner';
 
+type FolderSettingType =
+  | 'string'
+  | 'boolean'
+  | 'integer'
+  | 'object'
+  | 'string[]'
+  | 'object[]';
+
+// Note: The types mirror the configuration schema of the package.json
+const FOLDER_SETTING_TYPES = {
+  cCompilerPath: 'string',
+  cppCompilerPath: 'string',
+  debuggerPath: 'string',
+  msvcBatchPath: 'string',
+  useMsvc: 'boolean',
+  cStandard: 'string',
+  cppStandard: 'string',
+  compilerArgs: 'string[]',
+  linkerArgs: 'string[]',
+  includePaths: 'string[]',
+  includeSearch: 'string[]',
+  excludeSearch: 'string[]',
+  enableWarnings: 'boolean',
+  warningsAsError: 'boolean',
+  warnings: 'string[]',
+  msvcWarnings: 'string[]',
+  useAddressSanitizer: 'boolean',
+  useUndefinedSanitizer: 'boolean',
+  useLeakSanitizer: 'boolean',
+  showCompilationTime: 'boolean',
+  useLinkTimeOptimization: 'boolean',
+  parallelJobs: 'integer',
+  useRecursiveBuild: 'boolean',
+  outputTypes: 'object',
+  outputName: 'string',
+  buildDirectory: 'string',
+  buildModes: 'object[]',
+  precompiledHeader: 'string',
+  compilerLauncher: 'string',
+  useStructuredDiagnostics: 'boolean',
+  toolchains: 'object[]',
+  activeToolchain: 'string',
+  pkgConfigPackages: 'string[]',
+  defines: 'string[]',
+  terminatePreviousBuild: 'boolean',
+  rerunOnWatch: 'boolean',
+} as const;
+
+type FolderSettingName = keyof typeof FOLDER_SETTING_TYPES;
+type FolderSettingValues = Pick<SettingsProvider, FolderSettingName>;
+
 export class SettingsProvider extends FileProvider {
   static DEFAULT_C_COMPILER_PATH_NON_MAC = 'gcc';
   static DEFAULT_C_COMPILER_PATH_MAC = 'clang';
@@ -56,6 +121,22 @@ export class SettingsProvider extends FileProvider {
   static DEFAULT_LEAK_SANITIZER = false;
   static DEFAULT_SHOW_COMPILATION_TIME = false;
   static DEFAULT_USE_LTO = false;
+  static DEFAULT_PARALLEL_JOBS = 0;
+  static DEFAULT_USE_RECURSIVE_BUILD = false;
+  static DEFAULT_OUTPUT_TYPES: { [folderPattern: string]: OutputTypes } = {};
+  static DEFAULT_OUTPUT_NAME = '';
+  static DEFAULT_BUILD_DIRECTORY = '';
+  static DEFAULT_BUILD_MODES: BuildMode[] = [];
+  static DEFAULT_PRECOMPILED_HEADER = '';
+  static DEFAULT_COMPILER_LAUNCHER = 'auto';
+  static DEFAULT_USE_STRUCTURED_DIAGNOSTICS = false;
+  static DEFAULT_TOOLCHAINS: Toolchain[] = [];
+  static DEFAULT_ACTIVE_TOOLCHAIN = '';
+  static DEFAULT_PKG_CONFIG_PACKAGES: string[] = [];
+  static DEFAULT_DEFINES: string[] = [];
+  static DEFAULT_TERMINATE_PREVIOUS_BUILD = false;
+  static DEFAULT_RERUN_ON_WATCH = true;
+  static DEFAULT_CROSS_DEBUGGER_PATH = 'gdb-multiarch';
 
   static DEFAULT_WARNINGS_UNIX = [
     // Baseline
@@ -95,14 +176,20 @@ export class SettingsProvider extends FileProvider {
 
   static DEFAULT_USE_MSVC = false;
   static MSVC_COMPILER_NAME = 'cl.exe';
+  static COMPILE_COMMANDS_FILENAME = 'compile_commands.json';
+  static FOLDER_SETTINGS_FILENAME = '.c_cpp_runner.json';
 
   // Workspace data
   private _configGlobal = vscode.workspace.getConfiguration(EXTENSION_NAME);
+  // Note: The workspace values of the settings that the folder overrides
+  private _workspaceSettings: Partial<FolderSettingValues> = {};
+  private _lastFolderSettingsWarning: string | undefined;
 
   // Machine information
   public operatingSystem = getOperatingSystem();
   public architecture: Architectures | undefined;
   public isCygwin: boolean = false;
+  public targetMachine: string | undefined;
 
   // Settings
   public cCompilerPath: string =
@@ -132,6 +219,27 @@ export class SettingsProvider extends FileProvider {
   public showCompilationTime: boolean =
     SettingsProvider.DEFAULT_SHOW_COMPILATION_TIME;
   public useLinkTimeOptimization: boolean = SettingsProvider.DEFAULT_USE_LTO;
+  public parallelJobs: number = SettingsProvider.DEFAULT_PARALLEL_JOBS;
+  public useRecursiveBuild: boolean =
+    SettingsProvider.DEFAULT_USE_RECURSIVE_BUILD;
+  public outputTypes: { [folderPattern: string]: OutputTypes } =
+    SettingsProvider.DEFAULT_OUTPUT_TYPES;
+  public outputName: string = SettingsProvider.DEFAULT_OUTPUT_NAME;
+  public buildDirectory: string = SettingsProvider.DEFAULT_BUILD_DIRECTORY;
+  public buildModes: BuildMode[] = SettingsProvider.DEFAULT_BUILD_MODES;
+  public precompiledHeader: string =
+    SettingsProvider.DEFAULT_PRECOMPILED_HEADER;
+  public compilerLauncher: string = SettingsProvider.DEFAULT_COMPILER_LAUNCHER;
+  public useStructuredDiagnostics: boolean =
+    SettingsProvider.DEFAULT_USE_STRUCTURED_DIAGNOSTICS;
+  public toolchains: Toolchain[] = SettingsProvider.DEFAULT_TOOLCHAINS;
+  public activeToolchain: string = SettingsProvider.DEFAULT_ACTIVE_TOOLCHAIN;
+  public pkgConfigPackages: string[] =
+    SettingsProvider.DEFAULT_PKG_CONFIG_PACKAGES;
+  public defines: string[] = SettingsProvider.DEFAULT_DEFINES;
+  public terminatePreviousBuild: boolean =
+    SettingsProvider.DEFAULT_TERMINATE_PREVIOUS_BUILD;
+  public rerunOnWatch: boolean = SettingsProvider.DEFAULT_RERUN_ON_WATCH;
 
   constructor(public workspaceFolder: string, public activeFolder: string) {
     super(workspaceFolder, undefined, OUTPUT_FILENAME);
@@ -161,6 +269,7 @@ export class SettingsProvider extends FileProvider {
     if (allInfoMissing) {
       this.loadGlobalSettings();
       this.createFileData();
+      this.loadFolderSettings();
       this.getArchitecture();
       return;
     }
@@ -168,6 +277,7 @@ export class SettingsProvider extends FileProvider {
     if (onlySettingsMissing) {
       this.getSettingsFromProperties();
       this.createFileData();
+      this.loadFolderSettings();
       this.getArchitecture();
       return;
     }
@@ -233,11 +343,54 @@ export class SettingsProvider extends FileProvider {
   }
 
   public changeCallback() {
+    const compilers = this.getCompilersSignature();
+
     this.loadLocalSettings();
+
+    if (compilers !== this.getCompilersSignature()) this.getArchitecture();
   }
 
-  public updateFolderData(workspaceFolder: string) {
+  public updateFolderData(workspaceFolder: string, activeFolder: string) {
+    const compilers = this.getCompilersSignature();
+
+    this.activeFolder = activeFolder;
     super._updateFolderData(workspaceFolder);
+
+    this.loadLocalSettings();
+
+    if (compilers !== this.getCompilersSignature()) this.getArchitecture();
+  }
+
+  public setCompilers(compilerSet: CompilerSet) {
+    this.cCompilerPath = compilerSet.cCompilerPath;
+    this.cppCompilerPath = compilerSet.cppCompilerPath;
+    this.debuggerPath = compilerSet.debuggerPath;
+    this.useMsvc = false;
+
+    this.updateSelection('cCompilerPath', this.cCompilerPath);
+    this.updateSelection('cppCompilerPath', this.cppCompilerPath);
+    this.updateSelection('debuggerPath', this.debuggerPath);
+    this.updateSelection('useMsvc', this.useMsvc);
+
+    this.getArchitecture();
+  }
+
+  public setStandard(language: Languages, standard: string) {
+    if (language === Languages.cpp) {
+      this.cppStandard = standard;
+      this.updateSelection('cppStandard', this.cppStandard);
+    } else {
+      this.cStandard = standard;
+      this.updateSelection('cStandard', this.cStandard);
+    }
+  }
+
+  public setSetting<K extends FolderSettingName>(
+    name: K,
+    value: FolderSettingValues[K],
+  ) {
+    this.getSettings()[name] = value;
+    this.updateSelection(name, value);
   }
 
   private loadLocalSettings() {
@@ -394,6 +547,180 @@ export class SettingsProvider extends FileProvider {
       'useLinkTimeOptimization',
       SettingsProvider.DEFAULT_USE_LTO,
     );
+
+    this.parallelJobs = this.getSettingsValue(
+      settingsLocal,
+      'parallelJobs',
+      SettingsProvider.DEFAULT_PARALLEL_JOBS,
+    );
+
+    this.useRecursiveBuild = this.getSettingsValue(
+      settingsLocal,
+      'useRecursiveBuild',
+      SettingsProvider.DEFAULT_USE_RECURSIVE_BUILD,
+    );
+
+    this.outputTypes = this.getSettingsValue(
+      settingsLocal,
+      'outputTypes',
+      SettingsProvider.DEFAULT_OUTPUT_TYPES,
+    );
+
+    this.outputName = this.getSettingsValue(
+      settingsLocal,
+      'outputName',
+      SettingsProvider.DEFAULT_OUTPUT_NAME,
+    );
+
+    this.buildDirectory = this.getSettingsValue(
+      settingsLocal,
+      'buildDirectory',
+      SettingsProvider.DEFAULT_BUILD_DIRECTORY,
+    );
+
+    this.buildModes = this.getSettingsValue(
+      settingsLocal,
+      'buildModes',
+      SettingsProvider.DEFAULT_BUILD_MODES,
+    );
+
+    this.precompiledHeader = this.getSettingsValue(
+      settingsLocal,
+      'precompiledHeader',
+      SettingsProvider.DEFAULT_PRECOMPILED_HEADER,
+    );
+
+    this.compilerLauncher = this.getSettingsValue(
+      settingsLocal,
+      'compilerLauncher',
+      SettingsProvider.DEFAULT_COMPILER_LAUNCHER,
+    );
+
+    this.useStructuredDiagnostics = this.getSettingsValue(
+      settingsLocal,
+      'useStructuredDiagnostics',
+      SettingsProvider.DEFAULT_USE_STRUCTURED_DIAGNOSTICS,
+    );
+
+    this.toolchains = this.getSettingsValue(
+      settingsLocal,
+      'toolchains',
+      SettingsProvider.DEFAULT_TOOLCHAINS,
+    );
+
+    this.activeToolchain = this.getSettingsValue(
+      settingsLocal,
+      'activeToolchain',
+      SettingsProvider.DEFAULT_ACTIVE_TOOLCHAIN,
+    );
+
+    this.pkgConfigPackages = this.getSettingsValue(
+      settingsLocal,
+      'pkgConfigPackages',
+      SettingsProvider.DEFAULT_PKG_CONFIG_PACKAGES,
+    );
+
+    this.defines = this.getSettingsValue(
+      settingsLocal,
+      'defines',
+      SettingsProvider.DEFAULT_DEFINES,
+    );
+
+    this.terminatePreviousBuild = this.getSettingsValue(
+      settingsLocal,
+      'terminatePreviousBuild',
+      SettingsProvider.DEFAULT_TERMINATE_PREVIOUS_BUILD,
+    );
+
+    this.rerunOnWatch = this.getSettingsValue(
+      settingsLocal,
+      'rerunOnWatch',
+      SettingsProvider.DEFAULT_RERUN_ON_WATCH,
+    );
+
+    this.loadFolderSettings();
+  }
+
+  private loadFolderSettings() {
+    this._workspaceSettings = {};
+
+    if (!this.activeFolder) return;
+
+    const folderSettings: JsonSettings | undefined = readJsonFile(
+      this.getFolderSettingsPath(),
+    );
+
+    if (!folderSettings) return;
+
+    const invalidSettings: string[] = [];
+
+    for (const [key, value] of Object.entries(folderSettings)) {
+      const name = key.replace(`${EXTENSION_NAME}.`, '');
+
+      if (!isFolderSettingName(name)) continue;
+
+      const type = FOLDER_SETTING_TYPES[name];
+      if (!isSettingOfType(value, type)) {
+        invalidSettings.push(`${key} (${type})`);
+        continue;
+      }
+
+      this.overrideSetting(name, value as FolderSettingValues[typeof name]);
+    }
+
+    const warning =
+      invalidSettings.length > 0
+        ? `Ignoring the settings of ${
+            SettingsProvider.FOLDER_SETTINGS_FILENAME
+          } with a wrong type: ${invalidSettings.join(', ')}`
+        : undefined;
+
+    // Note: The folder settings are reloaded whenever the settings.json changes
+    if (warning && warning !== this._lastFolderSettingsWarning) {
+      vscode.window.showWarningMessage(warning);
+    }
+    this._lastFolderSettingsWarning = warning;
+  }
+
+  private overrideSetting<K extends FolderSettingName>(
+    name: K,
+    value: FolderSettingValues[K],
+  ) {
+    const settings: FolderSettingValues = this.getSettings();
+
+    if (!this.isFolderSetting(name)) {
+      this._workspaceSettings[name] = settings[name];
+    }
+
+    settings[name] = value;
+  }
+
+  private getSettings(): FolderSettingValues {
+    return this;
+  }
+
+  private getWorkspaceSettings(): FolderSettingValues {
+    return { ...this.getSettings(), ...this._workspaceSettings };
+  }
+
+  private isFolderSetting(name: FolderSettingName) {
+    return this._workspaceSettings[name] !== undefined;
+  }
+
+  private getFolderSettingsPath() {
+    return path.join(
+      this.activeFolder,
+      SettingsProvider.FOLDER_SETTINGS_FILENAME,
+    );
+  }
+
+  private getCompilersSignature() {
+    return JSON.stringify([
+      this.cCompilerPath,
+      this.cppCompilerPath,
+      this.useMsvc,
+      this.getToolchain(),
+    ]);
   }
 
   private getSettingsFromProperties() {
@@ -511,30 +838,281 @@ export class SettingsProvider extends FileProvider {
       return;
     }
 
+    const toolchain = this.getToolchain();
+
+    if (toolchain && toolchain.target) {
+      const ret = getMachineArchitecture(toolchain.target);
+      this.architecture = ret.architecture;
+      this.isCygwin = ret.isCygwin;
+      this.targetMachine = ret.machine;
+      return;
+    }
+
     if (this.cCompilerPath) {
-      const ret = getCompilerArchitecture(this.cCompilerPath);
+      const ret = getCompilerArchitecture(this.getCompilerPath(Languages.c));
       this.architecture = ret.architecture;
       this.isCygwin = ret.isCygwin;
+      this.targetMachine = ret.machine;
       return;
     }
 
     if (this.cppCompilerPath) {
-      const ret = getCompilerArchitecture(this.cppCompilerPath);
+      const ret = getCompilerArchitecture(this.getCompilerPath(Languages.cpp));
       this.architecture = ret.architecture;
       this.isCygwin = ret.isCygwin;
+      this.targetMachine = ret.machine;
       return;
     }
 
     this.architecture = Architectures.x64;
     this.isCygwin = false;
+    this.targetMachine = undefined;
+  }
+
+  public getToolchain(): Toolchain | undefined {
+    if (!this.activeToolchain || this.useMsvc) return;
+
+    const toolchain = this.toolchains.find(
+      (toolchain) => toolchain && toolchain.name === this.activeToolchain,
+    );
+
+    if (!toolchain) return;
+
+    return {
+      name: toolchain.name,
+      prefix: toolchain.prefix ? toolchain.prefix : '',
+      sysroot: toolchain.sysroot ? toolchain.sysroot : '',
+      target: toolchain.target ? toolchain.target : '',
+      emulator: toolchain.emulator ? toolchain.emulator : '',
+      debuggerPath: toolchain.debuggerPath ? toolchain.debuggerPath : '',
+    };
+  }
+
+  public getCompilerPath(language: Languages) {
+    const compilerPath =
+      language === Languages.cpp ? this.cppCompilerPath : this.cCompilerPath;
+    const toolchain = this.getToolchain();
+
+    if (!toolchain || !toolchain.prefix) return compilerPath;
+
+    // Note: The prefix replaces the directory, e.g. aarch64-linux-gnu-gcc
+    return toolchain.prefix + path.basename(compilerPath);
+  }
+
+  public getArchiverPath(archiver: string) {
+    const toolchain = this.getToolchain();
+
+    if (!toolchain) return archiver;
+
+    return toolchain.prefix + archiver;
+  }
+
+  public getEmulator(): Command | undefined {
+    const toolchain = this.getToolchain();
+
+    if (!toolchain) return;
+
+    let emulator = toolchain.emulator;
+
+    if (!emulator) {
+      // Note: The qemu user mode emulation is only available on Linux hosts
+      if (this.operatingSystem !== OperatingSystems.linux) return;
+      if (!this.targetMachine) return;
+
+      const emulatorArchitecture = getEmulatorArchitecture(this.targetMachine);
+      if (
+        !emulatorArchitecture ||
+        emulatorArchitecture === getHostArchitecture()
+      ) {
+        return;
+      }
+
+      emulator = `qemu-${emulatorArchitecture}`;
+    }
+
+    return {
+      program: emulator,
+      args: toolchain.sysroot ? ['-L', toolchain.sysroot] : [],
+    };
+  }
+
+  public async getCompilerCapabilities(language: Languages) {
+    if (this.useMsvc) return undefined;
+
+    const toolchain = this.getToolchain();
+    const cCompilerPath = this.getCompilerPath(Languages.c);
+    const cppCompilerPath = this.getCompilerPath(Languages.cpp);
+
+    return getCompilerCapabilities(
+      {
+        program: cCompilerPath,
+        args: getToolchainArgsUnix(toolchain, cCompilerPath),
+      },
+      {
+        program: cppCompilerPath,
+        args: getToolchainArgsUnix(toolchain, cppCompilerPath),
+      },
+      language,
+      this.parallelJobs,
+    );
+  }
+
+  public getDebuggerPath() {
+    const toolchain = this.getToolchain();
+
+    if (toolchain && toolchain.debuggerPath) return toolchain.debuggerPath;
+    if (this.getEmulator()) return SettingsProvider.DEFAULT_CROSS_DEBUGGER_PATH;
+
+    return this.debuggerPath;
+  }
+
+  public getOutputType(folder: string) {
+    const relativeFolder =
+      replaceBackslashes(path.relative(this._workspaceFolder, folder)) || '.';
+
+    for (const [folderPattern, outputType] of Object.entries(
+      this.outputTypes,
+    )) {
+      if (minimatch(relativeFolder, folderPattern)) return outputType;
+    }
+
+    return OutputTypes.executable;
+  }
+
+  public getBuildDir(folder: string) {
+    if (!this.buildDirectory) return path.join(folder, 'build');
+
+    const buildRoot = path.resolve(
+      this._workspaceFolder,
+      this.buildDirectory.replace('${workspaceFolder}', this._workspaceFolder),
+    );
+
+    const relativeFolder = path.relative(this._workspaceFolder, folder);
+    if (relativeFolder.startsWith('..') || path.isAbsolute(relativeFolder)) {
+      return path.join(buildRoot, path.basename(folder));
+    }
+
+    return path.join(buildRoot, relativeFolder);
+  }
+
+  public getCompileCommandsPath(folder: string) {
+    return path.join(
+      this.getBuildDir(folder),
+      SettingsProvider.COMPILE_COMMANDS_FILENAME,
+    );
+  }
+
+  public getBuildModes() {
+    const sanitizers: string[] = [];
+    if (this.useAddressSanitizer) sanitizers.push('address');
+    if (this.useUndefinedSanitizer) sanitizers.push('undefined');
+    if (this.useLeakSanitizer) sanitizers.push('leak');
+
+    const builtinModes: BuildMode[] = [
+      {
+        name: Builds.debug,
+        optimization: '0',
+        debugInfo: true,
+        defines: [],
+        sanitizers: sanitizers,
+        lto: false,
+      },
+      {
+        name: Builds.release,
+        optimization: '3',
+        debugInfo: false,
+        defines: ['NDEBUG'],
+        sanitizers: [],
+        lto: true,
+      },
+    ];
+
+    const customModes: BuildMode[] = this.buildModes
+      .filter((buildMode) => buildMode && buildMode.name)
+      .map((buildMode) => ({
+        name: buildMode.name,
+        optimization: buildMode.optimization ? buildMode.optimization : '',
+        debugInfo: Boolean(buildMode.debugInfo),
+        defines: buildMode.defines ? buildMode.defines : [],
+        sanitizers: buildMode.sanitizers ? buildMode.sanitizers : [],
+        lto: Boolean(buildMode.lto),
+      }));
+
+    // Note: Custom modes with the name of a built-in mode replace the built-in mode
+    const customNames = new Set(customModes.map((buildMode) => buildMode.name));
+
+    return [
+      ...builtinModes.filter((buildMode) => !customNames.has(buildMode.name)),
+      ...customModes,
+    ];
+  }
+
+  public getBuildMode(name: string) {
+    const buildModes = this.getBuildModes();
+
+    const buildMode = buildModes.find((mode) => mode.name === name);
+    if (buildMode) return buildMode;
+
+    return buildModes.find((mode) => mode.name === Builds.debug) as BuildMode;
+  }
+
+  public getDefines(buildMode: string) {
+    return [...this.defines, ...this.getBuildMode(buildMode).defines];
+  }
+
+  public getModeDir(folder: string, buildMode: string) {
+    return path.join(this.getBuildDir(folder), `${buildMode}`);
+  }
+
+  public getTargetName(folder: string, outputType: OutputTypes) {
+    const name = this.outputName
+      ? this.outputName
+      : path.basename(folder).replace(/\s/g, '_');
+
+    const isMsvcBuild =
+      this.operatingSystem === OperatingSystems.windows && this.useMsvc;
+
+    if (outputType === OutputTypes.staticLibrary) {
+      return isMsvcBuild ? `${name}.lib` : `lib${name}.a`;
+    }
+
+    if (outputType === OutputTypes.sharedLibrary) {
+      if (this.operatingSystem === OperatingSystems.windows) {
+        return `${name}.dll`;
+      } else if (this.operatingSystem === OperatingSystems.mac) {
+        return `lib${name}.dylib`;
+      }
+
+      return `lib${name}.so`;
+    }
+
+    if (this.operatingSystem === OperatingSystems.windows) {
+      return `${name}.exe`;
+    }
+
+    return name;
+  }
+
+  public getTargetPath(
+    folder: string,
+    buildMode: string,
+    outputType: OutputTypes,
+  ) {
+    return path.join(
+      this.getModeDir(folder, buildMode),
+      this.getTargetName(folder, outputType),
+    );
   }
 
   public reset() {
     this.loadGlobalSettings();
     this.storeSettings();
+    this.loadFolderSettings();
   }
 
   private loadGlobalSettings() {
+    this._workspaceSettings = {};
+
     /* Mandatory in settings.json */
     this.cCompilerPath = this.getGlobalSettingsValue(
       'cCompilerPath',
@@ -632,36 +1210,114 @@ export class SettingsProvider extends FileProvider {
       'useLinkTimeOptimization',
       SettingsProvider.DEFAULT_USE_LTO,
     );
+    this.parallelJobs = this.getGlobalSettingsValue(
+      'parallelJobs',
+      SettingsProvider.DEFAULT_PARALLEL_JOBS,
+    );
+    this.useRecursiveBuild = this.getGlobalSettingsValue(
+      'useRecursiveBuild',
+      SettingsProvider.DEFAULT_USE_RECURSIVE_BUILD,
+    );
+    this.outputTypes = this.getGlobalSettingsValue(
+      'outputTypes',
+      SettingsProvider.DEFAULT_OUTPUT_TYPES,
+    );
+    this.outputName = this.getGlobalSettingsValue(
+      'outputName',
+      SettingsProvider.DEFAULT_OUTPUT_NAME,
+    );
+    this.buildDirectory = this.getGlobalSettingsValue(
+      'buildDirectory',
+      SettingsProvider.DEFAULT_BUILD_DIRECTORY,
+    );
+    this.buildModes = this.getGlobalSettingsValue(
+      'buildModes',
+      SettingsProvider.DEFAULT_BUILD_MODES,
+    );
+    this.precompiledHeader = this.getGlobalSettingsValue(
+      'precompiledHeader',
+      SettingsProvider.DEFAULT_PRECOMPILED_HEADER,
+    );
+    this.compilerLauncher = this.getGlobalSettingsValue(
+      'compilerLauncher',
+      SettingsProvider.DEFAULT_COMPILER_LAUNCHER,
+    );
+    this.useStructuredDiagnostics = this.getGlobalSettingsValue(
+      'useStructuredDiagnostics',
+      SettingsProvider.DEFAULT_USE_STRUCTURED_DIAGNOSTICS,
+    );
+    this.toolchains = this.getGlobalSettingsValue(
+      'toolchains',
+      SettingsProvider.DEFAULT_TOOLCHAINS,
+    );
+    this.activeToolchain = this.getGlobalSettingsValue(
+      'activeToolchain',
+      SettingsProvider.DEFAULT_ACTIVE_TOOLCHAIN,
+    );
+    this.pkgConfigPackages = this.getGlobalSettingsValue(
+      'pkgConfigPackages',
+      SettingsProvider.DEFAULT_PKG_CONFIG_PACKAGES,
+    );
+    this.defines = this.getGlobalSettingsValue(
+      'defines',
+      SettingsProvider.DEFAULT_DEFINES,
+    );
+    this.terminatePreviousBuild = this.getGlobalSettingsValue(
+      'terminatePreviousBuild',
+      SettingsProvider.DEFAULT_TERMINATE_PREVIOUS_BUILD,
+    );
+    this.rerunOnWatch = this.getGlobalSettingsValue(
+      'rerunOnWatch',
+      SettingsProvider.DEFAULT_RERUN_ON_WATCH,
+    );
   }
 
   private storeSettings() {
-    this.updateBasedOnEnv('cCompilerPath', this.cCompilerPath);
-    this.updateBasedOnEnv('cppCompilerPath', this.cppCompilerPath);
-    this.updateBasedOnEnv('debuggerPath', this.debuggerPath);
-
-    this.update('cStandard', this.cStandard);
-    this.update('cppStandard', this.cppStandard);
-
-    this.update('msvcBatchPath', this.msvcBatchPath);
-    this.update('useMsvc', this.useMsvc);
-
-    this.update('warnings', this.warnings);
-    this.update('msvcWarnings', this.msvcWarnings);
-    this.update('enableWarnings', this.enableWarnings);
-    this.update('warningsAsError', this.warningsAsError);
-
-    this.update('compilerArgs', this.compilerArgs);
-    this.update('linkerArgs', this.linkerArgs);
-    this.update('includePaths', this.includePaths);
-
-    this.update('includeSearch', this.includeSearch);
-    this.update('excludeSearch', this.excludeSearch);
-
-    this.update('useAddressSanitizer', this.useAddressSanitizer);
-    this.update('useUndefinedSanitizer', this.useUndefinedSanitizer);
-    this.update('useLeakSanitizer', this.useLeakSanitizer);
-    this.update('showCompilationTime', this.showCompilationTime);
-    this.update('useLinkTimeOptimization', this.useLinkTimeOptimization);
+    // Note: The overrides of the folder settings are not stored in the workspace
+    const settings = this.getWorkspaceSettings();
+
+    this.updateBasedOnEnv('cCompilerPath', settings.cCompilerPath);
+    this.updateBasedOnEnv('cppCompilerPath', settings.cppCompilerPath);
+    this.updateBasedOnEnv('debuggerPath', settings.debuggerPath);
+
+    this.update('cStandard', settings.cStandard);
+    this.update('cppStandard', settings.cppStandard);
+
+    this.update('msvcBatchPath', settings.msvcBatchPath);
+    this.update('useMsvc', settings.useMsvc);
+
+    this.update('warnings', settings.warnings);
+    this.update('msvcWarnings', settings.msvcWarnings);
+    this.update('enableWarnings', settings.enableWarnings);
+    this.update('warningsAsError', settings.warningsAsError);
+
+    this.update('compilerArgs', settings.compilerArgs);
+    this.update('linkerArgs', settings.linkerArgs);
+    this.update('includePaths', settings.includePaths);
+
+    this.update('includeSearch', settings.includeSearch);
+    this.update('excludeSearch', settings.excludeSearch);
+
+    this.update('useAddressSanitizer', settings.useAddressSanitizer);
+    this.update('useUndefinedSanitizer', settings.useUndefinedSanitizer);
+    this.update('useLeakSanitizer', settings.useLeakSanitizer);
+    this.update('showCompilationTime', settings.showCompilationTime);
+    this.update('useLinkTimeOptimization', settings.useLinkTimeOptimization);
+    this.update('parallelJobs', settings.parallelJobs);
+    this.update('useRecursiveBuild', settings.useRecursiveBuild);
+    this.update('outputTypes', settings.outputTypes);
+    this.update('outputName', settings.outputName);
+    this.update('buildDirectory', settings.buildDirectory);
+    this.update('buildModes', settings.buildModes);
+    this.update('precompiledHeader', settings.precompiledHeader);
+    this.update('compilerLauncher', settings.compilerLauncher);
+    this.update('useStructuredDiagnostics', settings.useStructuredDiagnostics);
+    this.update('toolchains', settings.toolchains);
+    this.update('activeToolchain', settings.activeToolchain);
+    this.update('pkgConfigPackages', settings.pkgConfigPackages);
+    this.update('defines', settings.defines);
+    this.update('terminatePreviousBuild', settings.terminatePreviousBuild);
+    this.update('rerunOnWatch', settings.rerunOnWatch);
   }
 
   /********************/
@@ -713,6 +1369,38 @@ export class SettingsProvider extends FileProvider {
     writeJsonFile(this._outputPath, settingsJson);
   }
 
+  private updateSelection(
+    name: FolderSettingName,
+    value: FolderSettingValues[FolderSettingName],
+  ) {
+    const folderSettings: { [name: string]: unknown } | undefined =
+      this.isFolderSetting(name)
+        ? readJsonFile(this.getFolderSettingsPath())
+        : undefined;
+
+    if (!folderSettings) {
+      if (typeof value === 'string') {
+        this.updateBasedOnEnv(name, value);
+      } else {
+        this.update(name, value);
+      }
+      return;
+    }
+
+    // Note: A workspace value would stay hidden by the override of the folder
+    const key = Object.keys(folderSettings).find(
+      (settingName) => settingName.replace(`${EXTENSION_NAME}.`, '') === name,
+    );
+
+    folderSettings[key ? key : name] =
+      typeof value === 'string' &&
+      this.operatingSystem === OperatingSystems.windows
+        ? replaceBackslashes(value)
+        : value;
+
+    writeJsonFile(this.getFolderSettingsPath(), folderSettings);
+  }
+
   private updateBasedOnEnv(settingsName: string, settingsValue: string) {
     if (this.operatingSystem === OperatingSystems.windows) {
       this.update(settingsName, replaceBackslashes(settingsValue));
@@ -721,3 +1409,20 @@ export class SettingsProvider extends FileProvider {
     }
   }
 }
+
+function isFolderSettingName(name: string): name is FolderSettingName {
+  return Object.prototype.hasOwnProperty.call(FOLDER_SETTING_TYPES, name);
+}
+
+function isSettingOfType(value: unknown, type: FolderSettingType) {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'object') return isRecord(value);
+  if (type === 'string[]') {
+    return (
+      Array.isArray(value) && value.every((item) => typeof item === 'string')
+    );
+  }
+  if (type === 'object[]') return Array.isArray(value) && value.every(isRecord);
+
+  return typeof value === type;
+}
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { isHeaderFile, isSourceFile } from '../utils/fileUtils';
+
+const WATCH_DEBOUNCE_TIME = 500;
+
+export class WatchProvider implements vscode.Disposable {
+  private _fileWatcher: vscode.FileSystemWatcher;
+  private _debounceTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    public activeFolder: string,
+    private _buildDir: string,
+    private _onDidChange: () => void,
+  ) {
+    const filePattern = new vscode.RelativePattern(activeFolder, '**/*');
+
+    this._fileWatcher = vscode.workspace.createFileSystemWatcher(filePattern);
+
+    this._fileWatcher.onDidChange((e: vscode.Uri) => this.fileCallback(e));
+    this._fileWatcher.onDidCreate((e: vscode.Uri) => this.fileCallback(e));
+    this._fileWatcher.onDidDelete((e: vscode.Uri) => this.fileCallback(e));
+  }
+
+  public dispose() {
+    if (this._debounceTimer) clearTimeout(this._debounceTimer);
+    this._fileWatcher.dispose();
+  }
+
+  private fileCallback(e: vscode.Uri) {
+    const pathName = e.fsPath;
+    const fileExtension = path.extname(pathName).toLowerCase();
+
+    if (!isSourceFile(fileExtension) && !isHeaderFile(fileExtension)) return;
+
+    const relativePath = path.relative(this._buildDir, pathName);
+    if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+      return;
+    }
+
+    // Note: Saving several files at once should only trigger one build
+    if (this._debounceTimer) clearTimeout(this._debounceTimer);
+
+    this._debounceTimer = setTimeout(() => {
+      this._debounceTimer = undefined;
+      this._onDidChange();
+    }, WATCH_DEBOUNCE_TIME);
+  }
+}
@@ -0,0 +1,173 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+import { AssemblyDocument } from './types';
+
+const FILE_DIRECTIVE_REGEX =
+  /^\s*\.file\s+(\d+)\s+"((?:[^"\\]|\\.)*)"(?:\s+"((?:[^"\\]|\\.)*)")?/;
+const LOC_DIRECTIVE_REGEX = /^\s*\.loc\s+(\d+)\s+(\d+)/;
+const LABEL_REGEX = /^([\w.$@?]+):/;
+const LOCAL_LABEL_REGEX = /^(\.L|[Ll][A-Za-z_]*\d)/;
+const COMMENT_REGEX = /^(#|;|\/\/|@)/;
+const SYMBOL_REGEX = /[\w.$@?]+/g;
+const MSVC_SOURCE_LINE_REGEX = /^;\s+(\d+)\s+:/;
+const MSVC_LABEL_REGEX = /^(\S+)\s+PROC\b|^([\w$@?]+):/;
+const MSVC_DIRECTIVE_REGEX =
+  /^(PUBLIC|EXTRN|INCLUDELIB|TITLE|END|include|\.\w+)\b|^\S+\s+(SEGMENT|ENDS|ENDP|DB|DW|DD|DQ|=)(\s|$)/;
+const DEMANGLER_TIMEOUT = 5000;
+
+interface AssemblyLine {
+  text: string;
+  sourceLine: number;
+  label?: string;
+}
+
+export function parseAssemblyOutput(
+  output: string,
+  sourceFile: string,
+  activeFolder: string,
+): AssemblyDocument {
+  const sourcePath = path.resolve(activeFolder, sourceFile);
+  const sourceFileIds = new Set<string>();
+  const assemblyLines: AssemblyLine[] = [];
+
+  let sourceLine = 0;
+
+  for (const outputLine of output.split(/\r?\n/)) {
+    const trimmedLine = outputLine.trim();
+
+    const fileDirective = trimmedLine.match(FILE_DIRECTIVE_REGEX);
+    if (fileDirective) {
+      const dir = fileDirective[3]
+        ? unescapeName(fileDirective[2] as string)
+        : '';
+      const name = unescapeName(
+        (fileDirective[3] ? fileDirective[3] : fileDirective[2]) as string,
+      );
+
+      if (path.resolve(activeFolder, dir, name) === sourcePath) {
+        sourceFileIds.add(fileDirective[1] as string);
+      }
+      continue;
+    }
+
+    // Note: Instructions of inlined header code have no line in this file
+    const locDirective = trimmedLine.match(LOC_DIRECTIVE_REGEX);
+    if (locDirective) {
+      sourceLine = sourceFileIds.has(locDirective[1] as string)
+        ? Number(locDirective[2])
+        : 0;
+      continue;
+    }
+
+    if (trimmedLine === '' || COMMENT_REGEX.test(trimmedLine)) continue;
+
+    const label = outputLine.match(LABEL_REGEX);
+    if (label) {
+      assemblyLines.push({
+        text: `${label[1]}:`,
+        sourceLine: 0,
+        label: label[1] as string,
+      });
+      continue;
+    }
+
+    if (trimmedLine.startsWith('.')) continue;
+
+    assemblyLines.push({
+      text: `  ${trimmedLine.replace(/\s+/g, ' ')}`,
+      sourceLine: sourceLine,
+    });
+  }
+
+  return filterUnusedLabels(assemblyLines, (label) =>
+    LOCAL_LABEL_REGEX.test(label),
+  );
+}
+
+export function parseMsvcAssemblyListing(output: string): AssemblyDocument {
+  const assemblyLines: AssemblyLine[] = [];
+
+  let sourceLine = 0;
+
+  for (const outputLine of output.split(/\r?\n/)) {
+    const trimmedLine = outputLine.trim();
+
+    // Note: The /FAs listing interleaves the source lines as comments
+    const sourceComment = outputLine.match(MSVC_SOURCE_LINE_REGEX);
+    if (sourceComment) {
+      sourceLine = Number(sourceComment[1]);
+      continue;
+    }
+
+    if (trimmedLine === '' || trimmedLine.startsWith(';')) continue;
+
+    const label = trimmedLine.match(MSVC_LABEL_REGEX);
+    if (label) {
+      const name = (label[1] ? label[1] : label[2]) as string;
+      assemblyLines.push({ text: `${name}:`, sourceLine: 0, label: name });
+      continue;
+    }
+
+    if (MSVC_DIRECTIVE_REGEX.test(trimmedLine)) continue;
+
+    // Note: The trailing comments hold the undecorated symbol names
+    assemblyLines.push({
+      text: `  ${trimmedLine.replace(/\s+/g, ' ')}`,
+      sourceLine: sourceLine,
+    });
+  }
+
+  return filterUnusedLabels(assemblyLines, (label) => label.startsWith('$'));
+}
+
+export function demangleSymbols(content: string) {
+  return new Promise<string>((resolve) => {
+    const demangler = execFile(
+      'c++filt',
+      [],
+      { timeout: DEMANGLER_TIMEOUT, maxBuffer: content.length * 4 + 1024 },
+      (err, stdout) => {
+        const isComplete =
+          !err && stdout.split('\n').length === content.split('\n').length;
+
+        // Note: Without a demangler the symbols are shown as they are
+        resolve(isComplete ? stdout : content);
+      },
+    );
+
+    demangler.stdin?.on('error', () => undefined);
+    demangler.stdin?.end(content);
+  });
+}
+
+function filterUnusedLabels(
+  assemblyLines: AssemblyLine[],
+  isLocalLabel: (label: string) => boolean,
+): AssemblyDocument {
+  const usedSymbols = new Set<string>();
+
+  for (const assemblyLine of assemblyLines) {
+    if (assemblyLine.label) continue;
+
+    const symbols = assemblyLine.text.match(SYMBOL_REGEX);
+    if (symbols) symbols.forEach((symbol) => usedSymbols.add(symbol));
+  }
+
+  const keptLines = assemblyLines.filter(
+    (assemblyLine) =>
+      !assemblyLine.label ||
+      !isLocalLabel(assemblyLine.label) ||
+      usedSymbols.has(assemblyLine.label),
+  );
+
+  return {
+    content:
+      keptLines.map((assemblyLine) => assemblyLine.text).join('\n') + '\n',
+    sourceLines: keptLines.map((assemblyLine) => assemblyLine.sourceLine),
+  };
+}
+
+function unescapeName(text: string) {
+  return text.replace(/\\(.)/g, '$1');
+}
@@ -0,0 +1,232 @@
+import { execFile } from 'child_process';
+import { cpus, tmpdir } from 'os';
+import * as path from 'path';
+
+import { rmFile } from './fileUtils';
+import { Command, CompilerCapabilities, Languages } from './types';
+
+export const C_STANDARDS = [
+  'c89',
+  'c99',
+  'c11',
+  'c17',
+  'c23',
+  'gnu89',
+  'gnu99',
+  'gnu11',
+  'gnu17',
+  'gnu23',
+];
+export const CPP_STANDARDS = [
+  'c++98',
+  'c++03',
+  'c++11',
+  'c++14',
+  'c++17',
+  'c++20',
+  'c++23',
+  'gnu++98',
+  'gnu++03',
+  'gnu++11',
+  'gnu++14',
+  'gnu++17',
+  'gnu++20',
+  'gnu++23',
+];
+export const SANITIZERS = ['address', 'undefined', 'leak', 'thread', 'memory'];
+
+const PROBE_TIMEOUT = 10000;
+const PROBE_PROGRAM = 'int main(void) { return 0; }\n';
+
+let probeCount = 0;
+
+const compilerCapabilities = new Map<
+  string,
+  Promise<CompilerCapabilities | undefined>
+>();
+
+interface ProbeResult {
+  output: string | undefined;
+  timedOut: boolean;
+}
+
+export function getCompilerCapabilities(
+  cCompiler: Command,
+  cppCompiler: Command,
+  language: Languages,
+  jobs: number,
+) {
+  const cacheKey = JSON.stringify([cCompiler, cppCompiler, language]);
+  const cachedCapabilities = compilerCapabilities.get(cacheKey);
+
+  if (cachedCapabilities) return cachedCapabilities;
+
+  const capabilities = probeCompilers(
+    cCompiler,
+    cppCompiler,
+    language,
+    jobs,
+  ).then((result) => {
+    // Note: A timed out probe says nothing about the compiler, so it is retried
+    if (result.timedOut) compilerCapabilities.delete(cacheKey);
+
+    return result.capabilities;
+  });
+  compilerCapabilities.set(cacheKey, capabilities);
+
+  return capabilities;
+}
+
+async function probeCompilers(
+  cCompiler: Command,
+  cppCompiler: Command,
+  language: Languages,
+  jobs: number,
+): Promise<{
+  capabilities: CompilerCapabilities | undefined;
+  timedOut: boolean;
+}> {
+  const versionResults = await runProbes(
+    [
+      () => runProbe(cCompiler, ['-dumpversion'], ''),
+      () => runProbe(cppCompiler, ['-dumpversion'], ''),
+    ],
+    jobs,
+  );
+  const [cVersion, cppVersion] = versionResults.map((result) => result.output);
+  const versionTimedOut = versionResults.some((result) => result.timedOut);
+
+  if (cVersion === undefined || cppVersion === undefined) {
+    return { capabilities: undefined, timedOut: versionTimedOut };
+  }
+
+  // Note: Sanitizers and LTO are probed with the compiler that links the folder
+  const compiler = language === Languages.cpp ? cppCompiler : cCompiler;
+
+  // Note: Sanitizers and LTO also need their runtime, so the probes are linked
+  const probes: (() => Promise<ProbeResult>)[] = [
+    ...C_STANDARDS.map(
+      (standard) => () =>
+        runProbe(cCompiler, [
+          `-std=${standard}`,
+          '-fsyntax-only',
+          '-x',
+          'c',
+          '-',
+        ]),
+    ),
+    ...CPP_STANDARDS.map(
+      (standard) => () =>
+        runProbe(cppCompiler, [
+          `-std=${standard}`,
+          '-fsyntax-only',
+          '-x',
+          'c++',
+          '-',
+        ]),
+    ),
+    ...SANITIZERS.map(
+      (sanitizer) => () =>
+        runLinkProbe(compiler, language, `-fsanitize=${sanitizer}`),
+    ),
+    () => runLinkProbe(compiler, language, '-flto'),
+    () => runLinkProbe(compiler, language, '-fopenmp'),
+  ];
+
+  const results = await runProbes(probes, jobs);
+
+  if (results.some((result) => result.timedOut)) {
+    return { capabilities: undefined, timedOut: true };
+  }
+
+  // Note: The outputs are taken in the order of the probes
+  const outputs = results.map((result) => result.output);
+  const takeSupported = (values: string[]) => {
+    const valueOutputs = outputs.splice(0, values.length);
+    return values.filter((_, index) => valueOutputs[index] !== undefined);
+  };
+  const cStandards = takeSupported(C_STANDARDS);
+  const cppStandards = takeSupported(CPP_STANDARDS);
+  const sanitizers = takeSupported(SANITIZERS);
+  const [lto, openmp] = outputs;
+
+  return {
+    capabilities: {
+      cVersion: cVersion.trim(),
+      cppVersion: cppVersion.trim(),
+      cStandards: cStandards,
+      cppStandards: cppStandards,
+      sanitizers: sanitizers,
+      lto: lto !== undefined,
+      openmp: openmp !== undefined,
+    },
+    timedOut: false,
+  };
+}
+
+async function runProbes(probes: (() => Promise<ProbeResult>)[], jobs: number) {
+  const results: ProbeResult[] = [];
+  const numJobs = jobs > 0 ? jobs : cpus().length;
+
+  // Note: Slow machines time out when every probe starts at once
+  let nextProbeIdx = 0;
+  const worker = async () => {
+    while (nextProbeIdx < probes.length) {
+      const probeIdx = nextProbeIdx++;
+      const probe = probes[probeIdx] as () => Promise<ProbeResult>;
+      results[probeIdx] = await probe();
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(numJobs, probes.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+
+  return results;
+}
+
+async function runLinkProbe(
+  compiler: Command,
+  language: Languages,
+  flag: string,
+) {
+  // Note: The probes run in parallel, so every probe needs its own output
+  const outputPath = path.join(
+    tmpdir(),
+    `c_cpp_runner_probe_${process.pid}_${probeCount++}`,
+  );
+
+  const result = await runProbe(compiler, [
+    flag,
+    '-x',
+    language === Languages.cpp ? 'c++' : 'c',
+    '-',
+    '-o',
+    outputPath,
+  ]);
+
+  rmFile(outputPath);
+  rmFile(outputPath + '.exe');
+
+  return result;
+}
+
+function runProbe(compiler: Command, args: string[], input = PROBE_PROGRAM) {
+  return new Promise<ProbeResult>((resolve) => {
+    const child = execFile(
+      compiler.program,
+      [...compiler.args, ...args],
+      { timeout: PROBE_TIMEOUT },
+      (err, stdout) =>
+        resolve({
+          output: err ? undefined : stdout,
+          timedOut: err ? err.killed === true : false,
+        }),
+    );
+
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(input);
+  });
+}
@@ -0,0 +1,98 @@
+import { Command, OperatingSystems } from './types';
+
+export function parseArguments(argumentsString: string) {
+  const args: string[] = [];
+  let currentArg = '';
+  let hasArg = false;
+  let quote: string | undefined;
+
+  for (let i = 0; i < argumentsString.length; i++) {
+    const char = argumentsString[i] as string;
+    const nextChar = argumentsString[i + 1];
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"' && nextChar === '"') {
+        currentArg += nextChar;
+        i++;
+      } else {
+        currentArg += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasArg = true;
+    } else if (
+      char === '\\' &&
+      nextChar !== undefined &&
+      /["'\s]/.test(nextChar)
+    ) {
+      // Note: Other backslashes are kept for Windows paths
+      currentArg += nextChar;
+      hasArg = true;
+      i++;
+    } else if (/\s/.test(char)) {
+      if (hasArg) args.push(currentArg);
+
+      currentArg = '';
+      hasArg = false;
+    } else {
+      currentArg += char;
+      hasArg = true;
+    }
+  }
+
+  if (hasArg) args.push(currentArg);
+
+  return args;
+}
+
+export function parseArgumentList(argumentList: string[]) {
+  const args: string[] = [];
+
+  if (!argumentList) return args;
+
+  for (const argumentsString of argumentList) {
+    args.push(...parseArguments(argumentsString));
+  }
+
+  return args;
+}
+
+export function quoteArgument(arg: string, operatingSystem: OperatingSystems) {
+  if (operatingSystem === OperatingSystems.windows) {
+    if (/^[\w@%+=:,./\\-]+$/.test(arg)) return arg;
+
+    return `"${arg.replace(/"/g, '\\"')}"`;
+  }
+
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+export function joinCommandLine(
+  command: Command,
+  operatingSystem: OperatingSystems,
+) {
+  return [command.program, ...command.args]
+    .map((arg) => quoteArgument(arg, operatingSystem))
+    .join(' ');
+}
+
+export function getEchoCommand(
+  message: string,
+  operatingSystem: OperatingSystems,
+): Command {
+  if (operatingSystem !== OperatingSystems.windows) {
+    return { program: 'echo', args: [message] };
+  }
+
+  // Note: echo is a builtin of the Windows command prompt
+  const drive = process.env['SystemDrive'] ? process.env['SystemDrive'] : 'C:';
+
+  return {
+    program: drive + '/Windows/System32/cmd.exe',
+    args: ['/d', '/c', 'echo', message],
+  };
+}
@@ -1,17 +1,24 @@
+import { BuildMode, Toolchain } from './types';
+
+const MSVC_OPTIMIZATION_FLAGS: { [level: string]: string } = {
+  '0': '/Od',
+  '1': '/O1',
+  '2': '/O2',
+  '3': '/Ox',
+  s: '/O1',
+  z: '/O1',
+  g: '/Od',
+  fast: '/O2',
+};
+
 export function gatherIncludeDirsUnix(includePaths: string[]) {
-  let args = '';
+  const args: string[] = [];
 
   if (includePaths && includePaths.length > 0) {
     for (const includePath of includePaths) {
       if (includePath.includes('$(default)')) continue;
 
-      const hasSpace = includePath.includes(' ');
-
-      if (hasSpace) {
-        args += ` -I"${includePath}"`;
-      } else {
-        args += ` -I${includePath}`;
-      }
+      args.push(`-I${includePath}`);
     }
   }
 
@@ -19,39 +26,92 @@ export function gatherIncludeDirsUnix(includePaths: string[]) {
 }
 
 export function gatherIncludeDirsMsvc(includePaths: string[]) {
-  let args = '';
+  const args: string[] = [];
 
   if (includePaths && includePaths.length > 0) {
     for (const includePath of includePaths) {
       if (includePath.includes('$(default)')) continue;
 
-      const hasSpace = includePath.includes(' ');
-
-      if (hasSpace) {
-        args += ` /I"${includePath}"`;
-      } else {
-        args += ` /I${includePath}`;
-      }
+      args.push(`/I${includePath}`);
     }
   }
 
   return args;
 }
 
-export function GetWildcardPatterns(files: string[]) {
-  const has_cpp = files.some((f: string) => f.endsWith('.cpp'));
-  const has_cc = files.some((f: string) => f.endsWith('.cc'));
-  const has_cxx = files.some((f: string) => f.endsWith('.cxx'));
+export function getDefineArgsUnix(defines: string[]) {
+  if (!defines) return [];
+
+  return defines.map((define) => `-D${define}`);
+}
+
+export function getDefineArgsMsvc(defines: string[]) {
+  if (!defines) return [];
+
+  return defines.map((define) => `/D${define}`);
+}
+
+export function getBuildModeArgsUnix(buildMode: BuildMode) {
+  const args: string[] = [];
+
+  if (buildMode.debugInfo) args.push('-g3');
+  if (buildMode.optimization) args.push(`-O${buildMode.optimization}`);
+
+  args.push(...getDefineArgsUnix(buildMode.defines));
+
+  return args;
+}
+
+export function getBuildModeArgsMsvc(buildMode: BuildMode) {
+  const args: string[] = [];
+
+  if (buildMode.optimization) {
+    const optimizationFlag = MSVC_OPTIMIZATION_FLAGS[buildMode.optimization];
+    args.push(optimizationFlag ? optimizationFlag : '/O2');
+  }
+
+  // Note: Whole program optimization is only used for modes with LTO
+  if (buildMode.lto) args.push('/GL');
+  if (buildMode.debugInfo) args.push('/Zi');
+
+  args.push(...getDefineArgsMsvc(buildMode.defines));
+
+  return args;
+}
+
+export function getSanitizerArgsUnix(buildMode: BuildMode) {
+  return buildMode.sanitizers.map((sanitizer) => `-fsanitize=${sanitizer}`);
+}
 
-  if (has_cpp && !has_cc && !has_cxx) return ' *.cpp';
-  if (!has_cpp && has_cc && !has_cxx) return ' *.cc';
-  if (!has_cpp && !has_cc && has_cxx) return ' *.cxx';
+export function getDiagnosticsFormatArgs(compilerPath: string) {
+  // Note: Clang prints SARIF and GCC its own JSON format to stderr
+  if (compilerPath.toLowerCase().includes('clang')) {
+    return ['-fdiagnostics-format=sarif', '-Wno-sarif-format-unstable'];
+  }
 
-  if (!has_cpp && has_cc && has_cxx) return ' *.cc *.cxx';
-  if (has_cpp && !has_cc && has_cxx) return ' *.cpp *.cxx';
-  if (has_cpp && has_cc && !has_cxx) return ' *.cpp *.cc';
+  return ['-fdiagnostics-format=json'];
+}
+
+export function getSanitizerArgsMsvc(buildMode: BuildMode) {
+  // Note: MSVC only implements the address sanitizer
+  if (buildMode.sanitizers.includes('address')) return ['/fsanitize=address'];
+
+  return [];
+}
 
-  if (has_cpp && has_cc && has_cxx) return ' *.cpp *.cc *.cxx';
+export function getToolchainArgsUnix(
+  toolchain: Toolchain | undefined,
+  compilerPath: string,
+) {
+  const args: string[] = [];
 
-  return '';
+  if (!toolchain) return args;
+
+  // Note: A GCC is built for one target, only Clang selects it by the triple
+  if (toolchain.target && compilerPath.toLowerCase().includes('clang')) {
+    args.push(`--target=${toolchain.target}`);
+  }
+  if (toolchain.sysroot) args.push(`--sysroot=${toolchain.sysroot}`);
+
+  return args;
 }
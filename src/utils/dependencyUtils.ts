@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getModifiedTime, readJsonFile, writeJsonFile } from './fileUtils';
+import { isRecord } from './general';
+
+const BUILD_CACHE_FILENAME = 'build_cache.json';
+
+// Note: Single file and folder builds share the objects of the mode directory
+interface BuildCache {
+  compileSignatures: { [objectFile: string]: string };
+  linkSignatures: { [targetFile: string]: string };
+}
+
+export function parseMakeDependencies(content: string) {
+  const rules = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+  const firstRule = rules[0];
+
+  if (!firstRule) return [];
+
+  // Note: Skip drive letters like C:\ when searching the target separator
+  const separatorIdx = firstRule.search(/:(\s|$)/);
+  if (separatorIdx === -1) return [];
+
+  const prerequisites = firstRule.slice(separatorIdx + 1);
+
+  return prerequisites
+    .split(/(?<!\\)\s+/)
+    .filter((dependency) => Boolean(dependency))
+    .map((dependency) =>
+      dependency
+        .replace(/\\ /g, ' ')
+        .replace(/\\#/g, '#')
+        .replace(/\$\$/g, '$'),
+    );
+}
+
+export function parseMsvcDependencies(content: string) {
+  let dependencies: string[] = [];
+
+  try {
+    const dependencyJson = JSON.parse(content);
+    const data = dependencyJson['Data'];
+
+    if (!data) return [];
+
+    if (data['Source']) dependencies.push(data['Source']);
+    if (data['Includes']) dependencies = dependencies.concat(data['Includes']);
+  } catch (err) {}
+
+  return dependencies;
+}
+
+export function readDependencyFile(dependencyFilePath: string) {
+  let content: string;
+
+  try {
+    content = fs.readFileSync(dependencyFilePath, 'utf-8');
+  } catch (err) {
+    return undefined;
+  }
+
+  if (path.extname(dependencyFilePath) === '.json') {
+    return parseMsvcDependencies(content);
+  }
+
+  return parseMakeDependencies(content);
+}
+
+export function isObjectFileStale(
+  objectFilePath: string,
+  sourceFilePath: string,
+  dependencyFilePath: string,
+  cwd: string,
+) {
+  const objectTime = getModifiedTime(objectFilePath);
+  if (objectTime === undefined) return true;
+
+  const dependencies = readDependencyFile(dependencyFilePath);
+  if (!dependencies) return true;
+
+  return [sourceFilePath, ...dependencies].some((dependency) => {
+    const dependencyTime = getModifiedTime(path.resolve(cwd, dependency));
+
+    return dependencyTime === undefined || dependencyTime > objectTime;
+  });
+}
+
+export function isTargetStale(targetPath: string, inputPaths: string[]) {
+  const targetTime = getModifiedTime(targetPath);
+  if (targetTime === undefined) return true;
+
+  return inputPaths.some((inputPath) => {
+    const inputTime = getModifiedTime(inputPath);
+
+    return inputTime === undefined || inputTime > targetTime;
+  });
+}
+
+export function getBuildCacheChanges(
+  modeDir: string,
+  objectFiles: string[],
+  compileSignature: string,
+  targetFile: string,
+  linkSignature: string,
+) {
+  const lastCache = readBuildCache(modeDir);
+
+  return {
+    changedObjectFiles: objectFiles.filter(
+      (objectFile) =>
+        lastCache.compileSignatures[objectFile] !== compileSignature,
+    ),
+    linkChanged: lastCache.linkSignatures[targetFile] !== linkSignature,
+  };
+}
+
+export function updateBuildCache(
+  modeDir: string,
+  objectFiles: string[],
+  compileSignature: string,
+  targetFile: string,
+  linkSignature: string,
+) {
+  const cacheChanges = getBuildCacheChanges(
+    modeDir,
+    objectFiles,
+    compileSignature,
+    targetFile,
+    linkSignature,
+  );
+
+  const newCache = readBuildCache(modeDir);
+  objectFiles.forEach(
+    (objectFile) => (newCache.compileSignatures[objectFile] = compileSignature),
+  );
+  newCache.linkSignatures[targetFile] = linkSignature;
+  writeJsonFile(path.join(modeDir, BUILD_CACHE_FILENAME), newCache);
+
+  return cacheChanges;
+}
+
+function readBuildCache(modeDir: string): BuildCache {
+  const buildCache: BuildCache | undefined = readJsonFile(
+    path.join(modeDir, BUILD_CACHE_FILENAME),
+  );
+
+  // Note: A cache of an older version is treated as if nothing was built
+  if (
+    !buildCache ||
+    !isRecord(buildCache.compileSignatures) ||
+    !isRecord(buildCache.linkSignatures)
+  ) {
+    return { compileSignatures: {}, linkSignatures: {} };
+  }
+
+  return buildCache;
+}
@@ -0,0 +1,371 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+import { isRecord } from './general';
+import {
+  CompilerDiagnostic,
+  DiagnosticFixIt,
+  DiagnosticLevels,
+  DiagnosticRange,
+} from './types';
+
+const PRAGMA_ONCE_WARNING_MESSAGE = '#pragma once in main file';
+
+export function parseStructuredDiagnostics(output: string, cwd: string) {
+  const diagnostics: CompilerDiagnostic[] = [];
+  const textLines: string[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const content = line.trim();
+
+    if (content.startsWith('[') || content.startsWith('{')) {
+      const parsedDiagnostics = parseDiagnosticsJson(content, cwd);
+
+      if (parsedDiagnostics) {
+        diagnostics.push(...parsedDiagnostics);
+        continue;
+      }
+    }
+
+    if (content) textLines.push(line);
+  }
+
+  const text = textLines.length > 0 ? `${textLines.join('\n')}\n` : '';
+
+  return { diagnostics: diagnostics, text: text };
+}
+
+export function countDiagnostics(text: string) {
+  let warnings = 0;
+  let errors = 0;
+
+  // Note: Matches the GCC/Clang and the MSVC format, e.g. "error C2065:"
+  for (const line of text.split(/\r?\n/)) {
+    if (/:\s*(fatal\s+)?error(\s+[A-Z]+\d+)?:/i.test(line)) {
+      errors++;
+    } else if (/:\s*warning(\s+[A-Z]+\d+)?:/i.test(line)) {
+      warnings++;
+    }
+  }
+
+  return { warnings: warnings, errors: errors };
+}
+
+export function removePragmaOnceWarnings(output: string) {
+  const lines: string[] = [];
+  let isSnippet = false;
+
+  // Note: GCC warns about #pragma once when the header is the main file
+  for (const line of output.split(/\r?\n/)) {
+    const content = line.trim();
+
+    if (content.startsWith('[')) {
+      lines.push(removePragmaOnceJson(content));
+      isSnippet = false;
+    } else if (line.includes(`warning: ${PRAGMA_ONCE_WARNING_MESSAGE}`)) {
+      isSnippet = true;
+    } else if (!isSnippet || !/^\s*(\d+\s*)?\|/.test(line)) {
+      lines.push(line);
+      isSnippet = false;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatDiagnostic(diagnostic: CompilerDiagnostic) {
+  const option = diagnostic.option ? ` [${diagnostic.option}]` : '';
+  let text = `${formatLocation(diagnostic.range)}${diagnostic.level}: ${
+    diagnostic.message
+  }${option}\n`;
+
+  for (const related of diagnostic.related) {
+    text += `${formatLocation(related.range)}${DiagnosticLevels.note}: ${
+      related.message
+    }\n`;
+  }
+
+  return text;
+}
+
+function formatLocation(range: DiagnosticRange | undefined) {
+  if (!range) return '';
+
+  return `${range.file}:${range.startLine}:${range.startColumn}: `;
+}
+
+function parseDiagnosticsJson(content: string, cwd: string) {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(content);
+  } catch (err) {
+    return undefined;
+  }
+
+  if (Array.isArray(json)) return parseGccDiagnostics(json, cwd);
+  if (isRecord(json) && Array.isArray(json['runs'])) {
+    return parseSarifDiagnostics(json['runs']);
+  }
+
+  return undefined;
+}
+
+function removePragmaOnceJson(content: string) {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(content);
+  } catch (err) {
+    return content;
+  }
+
+  if (!Array.isArray(json)) return content;
+
+  return JSON.stringify(
+    json.filter(
+      (entry) =>
+        !isRecord(entry) || entry['message'] !== PRAGMA_ONCE_WARNING_MESSAGE,
+    ),
+  );
+}
+
+function getDiagnosticLevel(kind: unknown) {
+  if (typeof kind !== 'string' || !kind) return DiagnosticLevels.note;
+
+  // Note: GCC also reports kinds like "fatal error", "sorry" or "ice"
+  if (kind.includes('warning')) return DiagnosticLevels.warning;
+  if (kind === 'note' || kind === 'none') return DiagnosticLevels.note;
+
+  return DiagnosticLevels.error;
+}
+
+function getRecords(value: unknown) {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function getString(value: unknown) {
+  return typeof value === 'string' ? value : '';
+}
+
+function getNumber(value: unknown) {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/*******************/
+/* GCC DIAGNOSTICS */
+/*******************/
+
+function parseGccDiagnostics(json: unknown[], cwd: string) {
+  return getRecords(json).map((entry) => parseGccDiagnostic(entry, cwd));
+}
+
+function parseGccDiagnostic(
+  entry: Record<string, unknown>,
+  cwd: string,
+): CompilerDiagnostic {
+  const option = getString(entry['option']);
+
+  const diagnostic: CompilerDiagnostic = {
+    level: getDiagnosticLevel(entry['kind']),
+    message: getString(entry['message']),
+    option: option ? option : undefined,
+    range: getGccRange(entry, cwd),
+    related: [],
+    fixIts: getGccFixIts(entry, cwd),
+  };
+
+  for (const child of getRecords(entry['children'])) {
+    const childRange = getGccRange(child, cwd);
+
+    if (childRange) {
+      diagnostic.related.push({
+        range: childRange,
+        message: getString(child['message']),
+      });
+    }
+
+    diagnostic.fixIts.push(...getGccFixIts(child, cwd));
+  }
+
+  return diagnostic;
+}
+
+function getGccPosition(position: unknown, cwd: string) {
+  if (!isRecord(position)) return undefined;
+
+  const file = getString(position['file']);
+  const line = getNumber(position['line']);
+  const column = getNumber(position['column']);
+
+  if (!file || line === undefined || column === undefined) return undefined;
+
+  return { file: path.resolve(cwd, file), line: line, column: column };
+}
+
+function getGccRange(
+  entry: Record<string, unknown>,
+  cwd: string,
+): DiagnosticRange | undefined {
+  const location = getRecords(entry['locations'])[0];
+  if (!location) return undefined;
+
+  const caret = getGccPosition(location['caret'], cwd);
+  if (!caret) return undefined;
+
+  // Note: The finish position of GCC is inclusive
+  const finishPosition = getGccPosition(location['finish'], cwd);
+  const finish = finishPosition ? finishPosition : caret;
+
+  return {
+    file: caret.file,
+    startLine: caret.line,
+    startColumn: caret.column,
+    endLine: finish.line,
+    endColumn: finish.column + 1,
+  };
+}
+
+function getGccFixIts(entry: Record<string, unknown>, cwd: string) {
+  const fixIts: DiagnosticFixIt[] = [];
+
+  for (const gccFixIt of getRecords(entry['fixits'])) {
+    const start = getGccPosition(gccFixIt['start'], cwd);
+    const next = getGccPosition(gccFixIt['next'], cwd);
+
+    if (!start || !next) continue;
+
+    fixIts.push({
+      range: {
+        file: start.file,
+        startLine: start.line,
+        startColumn: start.column,
+        endLine: next.line,
+        endColumn: next.column,
+      },
+      replacement: getString(gccFixIt['string']),
+    });
+  }
+
+  return fixIts;
+}
+
+/*********************/
+/* SARIF DIAGNOSTICS */
+/*********************/
+
+function parseSarifDiagnostics(runs: unknown[]) {
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  for (const run of getRecords(runs)) {
+    for (const result of getRecords(run['results'])) {
+      const level = getDiagnosticLevel(result['level']);
+      const message = getSarifText(result['message']);
+      const range = getSarifRange(getRecords(result['locations'])[0]);
+
+      // Note: Clang reports notes as separate results after their diagnostic
+      const lastDiagnostic = diagnostics[diagnostics.length - 1];
+      if (level === DiagnosticLevels.note && lastDiagnostic && range) {
+        lastDiagnostic.related.push({ range: range, message: message });
+        lastDiagnostic.fixIts.push(...getSarifFixIts(result));
+        continue;
+      }
+
+      const ruleId = getString(result['ruleId']);
+
+      const diagnostic: CompilerDiagnostic = {
+        level: level,
+        message: message,
+        option: ruleId ? ruleId : undefined,
+        range: range,
+        related: [],
+        fixIts: getSarifFixIts(result),
+      };
+
+      for (const relatedLocation of getRecords(result['relatedLocations'])) {
+        const relatedRange = getSarifRange(relatedLocation);
+        if (!relatedRange) continue;
+
+        diagnostic.related.push({
+          range: relatedRange,
+          message: getSarifText(relatedLocation['message']),
+        });
+      }
+
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  return diagnostics;
+}
+
+function getSarifText(message: unknown) {
+  return isRecord(message) ? getString(message['text']) : '';
+}
+
+function getSarifFile(artifactLocation: unknown) {
+  if (!isRecord(artifactLocation)) return undefined;
+
+  const uri = getString(artifactLocation['uri']);
+  if (!uri) return undefined;
+
+  try {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+  } catch (err) {
+    return undefined;
+  }
+}
+
+function getSarifRegionRange(
+  file: string | undefined,
+  region: unknown,
+): DiagnosticRange | undefined {
+  if (!file || !isRecord(region)) return undefined;
+
+  const startLine = getNumber(region['startLine']);
+  if (!startLine) return undefined;
+
+  const startColumn = getNumber(region['startColumn']) || 1;
+
+  // Note: The end column of SARIF is exclusive
+  return {
+    file: file,
+    startLine: startLine,
+    startColumn: startColumn,
+    endLine: getNumber(region['endLine']) || startLine,
+    endColumn: getNumber(region['endColumn']) || startColumn + 1,
+  };
+}
+
+function getSarifRange(location: Record<string, unknown> | undefined) {
+  if (!location || !isRecord(location['physicalLocation'])) return undefined;
+
+  const physicalLocation = location['physicalLocation'];
+
+  return getSarifRegionRange(
+    getSarifFile(physicalLocation['artifactLocation']),
+    physicalLocation['region'],
+  );
+}
+
+function getSarifFixIts(result: Record<string, unknown>) {
+  const fixIts: DiagnosticFixIt[] = [];
+
+  for (const fix of getRecords(result['fixes'])) {
+    for (const artifactChange of getRecords(fix['artifactChanges'])) {
+      const file = getSarifFile(artifactChange['artifactLocation']);
+
+      for (const replacement of getRecords(artifactChange['replacements'])) {
+        const range = getSarifRegionRange(file, replacement['deletedRegion']);
+        if (!range) continue;
+
+        fixIts.push({
+          range: range,
+          replacement: getSarifText(replacement['insertedContent']),
+        });
+      }
+    }
+  }
+
+  return fixIts;
+}
@@ -22,6 +22,20 @@ export function rmdirRecursive(dir: string) {
   } catch (err) {}
 }
 
+export function rmFile(filepath: string) {
+  try {
+    fs.unlinkSync(filepath);
+  } catch (err) {}
+}
+
+export function getModifiedTime(filepath: string) {
+  try {
+    return fs.statSync(filepath).mtimeMs;
+  } catch (err) {
+    return undefined;
+  }
+}
+
 export function filterOnString(names: string[], filterName: string) {
   return names.filter((name) => !name.includes(filterName));
 }
@@ -115,6 +129,49 @@ export function filesInDir(dir: string) {
   return files;
 }
 
+export function filesInDirRecursive(
+  dir: string,
+  includeSearch: string[],
+  excludeSearch: string[],
+) {
+  const files = filesInDir(dir);
+  const hasSpace = dir.includes(' ');
+
+  const searchDir = (relativeDir: string) => {
+    const folders = foldersInDir(path.join(dir, relativeDir)).map((folder) =>
+      replaceBackslashes(path.join(relativeDir, path.basename(folder))),
+    );
+
+    for (const folder of excludePatternFromList(excludeSearch, folders)) {
+      const isIncluded = includePatternFromList(includeSearch, [folder]);
+
+      if (isIncluded.length > 0) {
+        const fileDirents = readDir(path.join(dir, folder));
+
+        fileDirents
+          ?.filter((file) => file.isFile())
+          .forEach((file) =>
+            files.push(
+              hasSpace
+                ? path.join(folder, file.name)
+                : path.join(dir, folder, file.name),
+            ),
+          );
+      }
+
+      searchDir(folder);
+    }
+  };
+
+  searchDir('');
+
+  return files;
+}
+
+export function getRelativePath(dir: string, filepath: string) {
+  return path.relative(dir, path.resolve(dir, filepath));
+}
+
 export function includePatternFromList(
   includeSearch: string[],
   foldersList: string[],
@@ -181,6 +238,26 @@ export function writeJsonFile(outputFilePath: string, jsonContent: any) {
   } catch (err) {}
 }
 
+export function readFile(filepath: string) {
+  try {
+    return fs.readFileSync(filepath, 'utf-8');
+  } catch (err) {
+    return undefined;
+  }
+}
+
+export function writeFile(outputFilePath: string, content: string) {
+  const dirname = path.dirname(outputFilePath);
+
+  if (!pathExists(dirname)) {
+    mkdirRecursive(dirname);
+  }
+
+  try {
+    fs.writeFileSync(outputFilePath, content);
+  } catch (err) {}
+}
+
 export function naturalSort(names: string[]) {
   return names.sort((a, b) =>
     a.localeCompare(b, undefined, {
@@ -231,11 +308,21 @@ export function getOccurenceIndicies(text: string, char: string) {
   return indices;
 }
 
-export function getAllSourceFilesInDir(dir: string, singleFileBuild: boolean) {
+export function getAllSourceFilesInDir(
+  dir: string,
+  singleFileBuild: boolean,
+  searchPatterns?: { includeSearch: string[]; excludeSearch: string[] },
+) {
   let language = getLanguage(dir);
 
   let files: string[] = [];
-  if (!singleFileBuild) {
+  if (!singleFileBuild && searchPatterns) {
+    files = filesInDirRecursive(
+      dir,
+      searchPatterns.includeSearch,
+      searchPatterns.excludeSearch,
+    );
+  } else if (!singleFileBuild) {
     files = filesInDir(dir);
   } else {
     const currentFile = vscode.window.activeTextEditor?.document.fileName;
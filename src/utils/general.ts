@@ -7,3 +7,7 @@ export function arraysEqual(a: any[], b: any[]) {
   }
   return true;
 }
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
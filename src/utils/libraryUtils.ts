@@ -0,0 +1,120 @@
+import * as path from 'path';
+
+import { isHeaderFile, isSourceFile, pathExists, readFile } from './fileUtils';
+
+interface LibraryFlags {
+  compilerArgs: string[];
+  linkerArgs: string[];
+}
+
+const MATH_FLAGS: LibraryFlags = { compilerArgs: [], linkerArgs: ['-lm'] };
+const PTHREAD_FLAGS: LibraryFlags = {
+  compilerArgs: ['-pthread'],
+  linkerArgs: ['-pthread'],
+};
+const OPENMP_FLAGS: LibraryFlags = {
+  compilerArgs: ['-fopenmp'],
+  linkerArgs: ['-fopenmp'],
+};
+
+const HEADER_LIBRARIES: { [header: string]: LibraryFlags } = {
+  'math.h': MATH_FLAGS,
+  'complex.h': MATH_FLAGS,
+  'tgmath.h': MATH_FLAGS,
+  'pthread.h': PTHREAD_FLAGS,
+  'threads.h': PTHREAD_FLAGS,
+  thread: PTHREAD_FLAGS,
+  mutex: PTHREAD_FLAGS,
+  shared_mutex: PTHREAD_FLAGS,
+  condition_variable: PTHREAD_FLAGS,
+  future: PTHREAD_FLAGS,
+  'omp.h': OPENMP_FLAGS,
+};
+
+// Note: The symbols are matched against the output of GNU ld, lld and ld64
+const SYMBOL_LIBRARIES: { pattern: RegExp; linkerArg: string }[] = [
+  {
+    pattern:
+      /^(sqrt|cbrt|pow|exp|exp2|expm1|log|log2|log10|log1p|sin|cos|tan|asin|acos|atan|atan2|sinh|cosh|tanh|floor|ceil|round|trunc|fmod|hypot|fabs)[fl]?$/,
+    linkerArg: '-lm',
+  },
+  { pattern: /^(pthread_|thrd_|mtx_|cnd_)/, linkerArg: '-pthread' },
+  { pattern: /^(omp_|GOMP_|__kmpc_)/, linkerArg: '-fopenmp' },
+  { pattern: /^(dlopen|dlsym|dlclose|dlerror)$/, linkerArg: '-ldl' },
+];
+
+const SYSTEM_INCLUDE_REGEX = /^\s*#\s*include\s*<([^>]+)>/gm;
+const UNDEFINED_SYMBOL_REGEXES = [
+  /undefined reference to `([^'(]+)/g,
+  /undefined symbol: ([^\s(]+)/g,
+  /"_([^"(]+)", referenced from/g,
+];
+
+export function getIncludedLibraryFlags(
+  activeFolder: string,
+  files: string[],
+  includePaths: string[],
+  supportsOpenmp: boolean,
+): LibraryFlags {
+  const compilerArgs = new Set<string>();
+  const linkerArgs = new Set<string>();
+
+  const projectIncludeDirs = includePaths
+    .map((includePath) => path.resolve(activeFolder, includePath))
+    .filter((includeDir) => isInsideFolder(activeFolder, includeDir));
+
+  for (const file of files) {
+    const fileExtension = path.extname(file).toLowerCase();
+    if (!isSourceFile(fileExtension) && !isHeaderFile(fileExtension)) continue;
+
+    const filePath = path.resolve(activeFolder, file);
+    const content = readFile(filePath);
+    if (!content) continue;
+
+    const includeDirs = [
+      path.dirname(filePath),
+      activeFolder,
+      ...projectIncludeDirs,
+    ];
+
+    for (const match of content.matchAll(SYSTEM_INCLUDE_REGEX)) {
+      const header = match[1] as string;
+      const libraryFlags = HEADER_LIBRARIES[header];
+      if (!libraryFlags) continue;
+      if (libraryFlags === OPENMP_FLAGS && !supportsOpenmp) continue;
+
+      // Note: A header of the project only shares the name of the system header
+      if (includeDirs.some((dir) => pathExists(path.join(dir, header)))) {
+        continue;
+      }
+
+      libraryFlags.compilerArgs.forEach((arg) => compilerArgs.add(arg));
+      libraryFlags.linkerArgs.forEach((arg) => linkerArgs.add(arg));
+    }
+  }
+
+  return { compilerArgs: [...compilerArgs], linkerArgs: [...linkerArgs] };
+}
+
+export function getMissingLibraries(linkerOutput: string) {
+  const linkerArgs = new Set<string>();
+
+  for (const regex of UNDEFINED_SYMBOL_REGEXES) {
+    for (const match of linkerOutput.matchAll(regex)) {
+      const symbol = (match[1] as string).trim();
+      const library = SYMBOL_LIBRARIES.find((symbolLibrary) =>
+        symbolLibrary.pattern.test(symbol),
+      );
+
+      if (library) linkerArgs.add(library.linkerArg);
+    }
+  }
+
+  return [...linkerArgs];
+}
+
+function isInsideFolder(folder: string, dir: string) {
+  const relativePath = path.relative(folder, dir);
+
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
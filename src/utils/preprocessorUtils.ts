@@ -0,0 +1,94 @@
+import * as path from 'path';
+
+import { replaceBackslashes } from './fileUtils';
+import { PreprocessedDocument, PreprocessedLocation } from './types';
+
+const GCC_LINE_MARKER_REGEX =
+  /^#\s*(\d+)\s+"((?:[^"\\]|\\.)*)"((?:\s+\d+)*)\s*$/;
+const MSVC_LINE_MARKER_REGEX = /^\s*#line\s+(\d+)\s+"((?:[^"\\]|\\.)*)"\s*$/;
+const SYSTEM_HEADER_FLAG = '3';
+
+export function parsePreprocessedOutput(
+  output: string,
+  activeFolder: string,
+  systemIncludeDirs: string[],
+): PreprocessedDocument {
+  const lines: string[] = [];
+  const locations: PreprocessedLocation[] = [];
+
+  let file = '';
+  let sourceLine = 1;
+  let isHidden = true;
+  let isContinuous = false;
+  let lastFile = '';
+  let lastSourceLine = 0;
+  let blankLines = 0;
+
+  for (const outputLine of output.split(/\r?\n/)) {
+    const marker =
+      outputLine.match(GCC_LINE_MARKER_REGEX) ||
+      outputLine.match(MSVC_LINE_MARKER_REGEX);
+
+    if (marker) {
+      const flags = marker[3] ? marker[3].trim().split(/\s+/) : [];
+
+      file = (marker[2] as string).replace(/\\(.)/g, '$1');
+      sourceLine = Number(marker[1]);
+
+      // Note: Some markers only resync the line number after blank lines
+      isContinuous =
+        file === lastFile &&
+        sourceLine > lastSourceLine &&
+        sourceLine <= lastSourceLine + 1 + blankLines;
+      blankLines = isContinuous ? sourceLine - lastSourceLine - 1 : 0;
+
+      // Note: Names like <built-in> or <command-line> are no real files
+      isHidden =
+        file.startsWith('<') ||
+        flags.includes(SYSTEM_HEADER_FLAG) ||
+        systemIncludeDirs.some((dir) =>
+          isInDirectory(path.resolve(activeFolder, file), dir),
+        );
+
+      continue;
+    }
+
+    if (!isHidden && outputLine.trim() === '') {
+      if (file === lastFile) blankLines++;
+    } else if (!isHidden) {
+      if (!isContinuous) {
+        if (lines.length > 0) lines.push('');
+
+        // Note: Line markers of relative includes are relative to the folder
+        const absoluteFile = path.resolve(activeFolder, file);
+        const relativeFile = path.relative(activeFolder, absoluteFile);
+        locations.push({
+          line: lines.length,
+          file: absoluteFile,
+          sourceLine: sourceLine,
+        });
+        lines.push(`// ${replaceBackslashes(relativeFile)}:${sourceLine}`);
+      } else if (blankLines > 0) {
+        // Note: Consecutive blank lines are collapsed into one
+        lines.push('');
+      }
+
+      lines.push(outputLine);
+
+      lastFile = file;
+      lastSourceLine = sourceLine;
+      blankLines = 0;
+      isContinuous = true;
+    }
+
+    sourceLine++;
+  }
+
+  return { content: lines.join('\n') + '\n', locations: locations };
+}
+
+function isInDirectory(file: string, dir: string) {
+  const relativePath = path.relative(dir, file);
+
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
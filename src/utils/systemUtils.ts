@@ -1,8 +1,9 @@
-import { execSync } from 'child_process';
+import { execFile, execSync } from 'child_process';
 import { lookpath } from 'lookpath';
-import { platform } from 'os';
+import { arch, platform } from 'os';
 
-import { Architectures, OperatingSystems } from './types';
+import { parseArguments } from './commandUtils';
+import { Architectures, OperatingSystems, PkgConfigFlags } from './types';
 
 export async function commandExists(command: string) {
   let commandPath = await lookpath(command);
@@ -18,6 +19,65 @@ export async function commandExists(command: string) {
   return { f: true, p: commandPath };
 }
 
+const msvcEnvironments = new Map<
+  string,
+  Promise<NodeJS.ProcessEnv | undefined>
+>();
+
+export function getMsvcEnvironment(
+  msvcBatchPath: string,
+  architecture: Architectures | undefined,
+) {
+  const cacheKey = `${msvcBatchPath} ${architecture}`;
+  const cachedEnvironment = msvcEnvironments.get(cacheKey);
+
+  if (cachedEnvironment) return cachedEnvironment;
+
+  const environment = loadMsvcEnvironment(msvcBatchPath, architecture);
+  msvcEnvironments.set(cacheKey, environment);
+
+  // Note: A failed vcvars call is retried with the next build
+  environment.then((env) => {
+    if (!env) msvcEnvironments.delete(cacheKey);
+  });
+
+  return environment;
+}
+
+function loadMsvcEnvironment(
+  msvcBatchPath: string,
+  architecture: Architectures | undefined,
+) {
+  const command = `""${msvcBatchPath}" ${architecture} > nul && set"`;
+
+  return new Promise<NodeJS.ProcessEnv | undefined>((resolve) => {
+    // Note: The quotes of the batch path have to reach cmd.exe unchanged
+    execFile(
+      'cmd.exe',
+      ['/d', '/s', '/c', command],
+      { encoding: 'utf-8', windowsVerbatimArguments: true },
+      (err, output) => {
+        if (err) {
+          resolve(undefined);
+          return;
+        }
+
+        const environment: NodeJS.ProcessEnv = {};
+        for (const line of output.split(/\r?\n/)) {
+          const separatorIdx = line.indexOf('=');
+          if (separatorIdx <= 0) continue;
+
+          environment[line.slice(0, separatorIdx)] = line.slice(
+            separatorIdx + 1,
+          );
+        }
+
+        resolve(environment);
+      },
+    );
+  });
+}
+
 export function getOperatingSystem() {
   const platformName = platform();
   let operatingSystem: OperatingSystems;
@@ -43,12 +103,18 @@ export function getCompilerArchitecture(compiler: string) {
     byteArray = Buffer.from('x64', 'utf-8');
   }
 
-  const str = String.fromCharCode(...byteArray);
+  return getMachineArchitecture(String.fromCharCode(...byteArray));
+}
+
+export function getMachineArchitecture(machine: string) {
+  const str = machine.trim();
   let architecture = Architectures.x64;
   let isCygwin = false;
 
-  if (str.toLowerCase().includes('arm')) {
+  if (str.includes('aarch64') || str.includes('arm64')) {
     architecture = Architectures.ARM64;
+  } else if (str.toLowerCase().includes('arm')) {
+    architecture = Architectures.ARM;
   } else if (str.includes('64')) {
     architecture = Architectures.x64;
   } else {
@@ -59,5 +125,100 @@ export function getCompilerArchitecture(compiler: string) {
     isCygwin = true;
   }
 
-  return { architecture: architecture, isCygwin: isCygwin };
+  return { architecture: architecture, isCygwin: isCygwin, machine: str };
+}
+
+export function getEmulatorArchitecture(machine: string) {
+  const cpu = machine.trim().split('-')[0];
+
+  if (!cpu) return;
+
+  // Note: The names of the qemu user mode emulators differ from the triples
+  if (/^i[3-6]86$/.test(cpu)) return 'i386';
+  if (cpu === 'arm64') return 'aarch64';
+  if (cpu.startsWith('arm') && !cpu.startsWith('armeb')) return 'arm';
+  if (cpu.startsWith('powerpc')) return cpu.replace('powerpc', 'ppc');
+
+  return cpu;
+}
+
+export function getHostArchitecture() {
+  const hostArchitectures: { [nodeArch: string]: string } = {
+    x64: 'x86_64',
+    ia32: 'i386',
+    arm64: 'aarch64',
+  };
+
+  const nodeArch = arch();
+
+  return hostArchitectures[nodeArch] ? hostArchitectures[nodeArch] : nodeArch;
+}
+
+const pkgConfigFlags = new Map<string, Promise<PkgConfigFlags | undefined>>();
+
+export function getPkgConfigFlags(
+  packages: string[],
+  sysroot: string | undefined,
+) {
+  if (!packages || packages.length === 0) {
+    return Promise.resolve<PkgConfigFlags>({
+      compilerArgs: [],
+      linkerArgs: [],
+    });
+  }
+
+  const cacheKey = getPkgConfigKey(packages, sysroot);
+  const cachedFlags = pkgConfigFlags.get(cacheKey);
+
+  if (cachedFlags) return cachedFlags;
+
+  const flags = loadPkgConfigFlags(packages, sysroot);
+  pkgConfigFlags.set(cacheKey, flags);
+
+  // Note: Unresolved packages are looked up again, e.g. after an install
+  flags.then((result) => {
+    if (!result) pkgConfigFlags.delete(cacheKey);
+  });
+
+  return flags;
+}
+
+export function getPkgConfigKey(
+  packages: string[],
+  sysroot: string | undefined,
+) {
+  return JSON.stringify([packages, sysroot ? sysroot : '']);
+}
+
+async function loadPkgConfigFlags(
+  packages: string[],
+  sysroot: string | undefined,
+): Promise<PkgConfigFlags | undefined> {
+  // Note: The paths of a cross-compilation sysroot are prefixed by pkg-config
+  const env = sysroot
+    ? { ...process.env, PKG_CONFIG_SYSROOT_DIR: sysroot }
+    : process.env;
+
+  const [cflags, libs] = await Promise.all([
+    runPkgConfig(['--cflags', ...packages], env),
+    runPkgConfig(['--libs', ...packages], env),
+  ]);
+
+  if (cflags === undefined || libs === undefined) return undefined;
+
+  return {
+    compilerArgs: parseArguments(cflags),
+    linkerArgs: parseArguments(libs),
+  };
+}
+
+function runPkgConfig(args: string[], env: NodeJS.ProcessEnv) {
+  return new Promise<string | undefined>((resolve) => {
+    execFile(
+      'pkg-config',
+      args,
+      { encoding: 'utf-8', env: env },
+      (err, stdout) => resolve(err ? undefined : stdout),
+    );
+  });
 }
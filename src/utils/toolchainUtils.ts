@@ -0,0 +1,124 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { foldersInDir, pathExists, readDir } from './fileUtils';
+import { CompilerSet, OperatingSystems } from './types';
+
+const COMPILER_REGEX = /^(gcc|clang)(-\d+(?:\.\d+)*)?(\.exe)?$/;
+const VERSION_TIMEOUT = 5000;
+
+const COMMON_PREFIXES_UNIX = [
+  '/usr/bin',
+  '/usr/local/bin',
+  '/opt/homebrew/bin',
+  '/opt/homebrew/opt/llvm/bin',
+  '/usr/local/opt/llvm/bin',
+];
+const COMMON_PREFIXES_WINDOWS = [
+  'C:/msys64/mingw64/bin',
+  'C:/msys64/ucrt64/bin',
+  'C:/msys64/clang64/bin',
+  'C:/MinGW/bin',
+  'C:/Program Files/LLVM/bin',
+];
+
+export async function findCompilerSets(operatingSystem: OperatingSystems) {
+  const compilerSets: Promise<CompilerSet | undefined>[] = [];
+  const foundCompilers = new Set<string>();
+
+  for (const dir of getSearchDirectories(operatingSystem)) {
+    const fileDirents = readDir(dir);
+    if (!fileDirents) continue;
+
+    const names = fileDirents.map((fileDirent) => fileDirent.name);
+
+    for (const name of names) {
+      const match = name.match(COMPILER_REGEX);
+      if (!match) continue;
+
+      const compiler = match[1] as string;
+      const suffix = match[2] ? match[2] : '';
+      const extension = match[3] ? match[3] : '';
+
+      const cppName = `${compiler === 'gcc' ? 'g++' : 'clang++'}${suffix}`;
+      if (!names.includes(cppName + extension)) continue;
+
+      // Note: The unversioned names are usually links to a versioned compiler
+      const cCompilerPath = path.join(dir, name);
+      const realPath = getRealPath(cCompilerPath);
+      if (foundCompilers.has(realPath)) continue;
+      foundCompilers.add(realPath);
+
+      const debuggerNames =
+        compiler === 'gcc'
+          ? [`gdb${suffix}`, 'gdb']
+          : [`lldb${suffix}`, 'lldb', 'gdb'];
+      const debuggerName = debuggerNames.find((debuggerCandidate) =>
+        names.includes(debuggerCandidate + extension),
+      );
+
+      compilerSets.push(
+        getCompilerVersion(cCompilerPath).then((version) => {
+          if (!version) return undefined;
+
+          return {
+            compiler: compiler,
+            version: version,
+            cCompilerPath: cCompilerPath,
+            cppCompilerPath: path.join(dir, cppName + extension),
+            debuggerPath: debuggerName
+              ? path.join(dir, debuggerName + extension)
+              : (debuggerNames[0] as string),
+          };
+        }),
+      );
+    }
+  }
+
+  const foundSets = await Promise.all(compilerSets);
+
+  return foundSets.filter(
+    (compilerSet): compilerSet is CompilerSet => compilerSet !== undefined,
+  );
+}
+
+function getSearchDirectories(operatingSystem: OperatingSystems) {
+  const envPath = process.env['PATH'] ? process.env['PATH'] : '';
+  const dirs = envPath.split(path.delimiter).filter((dir) => dir !== '');
+
+  if (operatingSystem === OperatingSystems.windows) {
+    dirs.push(...COMMON_PREFIXES_WINDOWS);
+  } else {
+    dirs.push(...COMMON_PREFIXES_UNIX);
+
+    // Note: The LLVM packages of Debian and Ubuntu are installed side by side
+    const llvmDirs = foldersInDir('/usr/lib')
+      .filter((dir) => path.basename(dir).startsWith('llvm-'))
+      .map((dir) => path.join(dir, 'bin'));
+    dirs.push(...llvmDirs);
+  }
+
+  return [...new Set(dirs.map((dir) => path.normalize(dir)))].filter((dir) =>
+    pathExists(dir),
+  );
+}
+
+function getRealPath(filepath: string) {
+  try {
+    return fs.realpathSync(filepath);
+  } catch (err) {
+    return filepath;
+  }
+}
+
+function getCompilerVersion(compilerPath: string) {
+  return new Promise<string | undefined>((resolve) => {
+    execFile(
+      compilerPath,
+      ['-dumpversion'],
+      { timeout: VERSION_TIMEOUT },
+      (err, stdout) => resolve(err ? undefined : stdout.trim()),
+    );
+  });
+}
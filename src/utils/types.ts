@@ -12,6 +12,8 @@ export interface JsonPropertiesConfigEntry {
   cppStandard: string;
   intelliSenseMode: string;
   compilerArgs: string[];
+  defines?: string[];
+  compileCommands?: string;
 }
 
 export interface JsonPropertiesConfig {
@@ -30,6 +32,9 @@ export interface JsonLaunchConfigEntry extends vscode.DebugConfiguration {
   program: string;
   MIMode?: string;
   miDebuggerPath?: string;
+  miDebuggerServerAddress?: string;
+  debugServerPath?: string;
+  debugServerArgs?: string;
   setupCommands?: any[];
 }
 
@@ -37,6 +42,67 @@ export interface JsonLaunchConfig {
   configurations: JsonLaunchConfigEntry[];
 }
 
+export interface Command {
+  program: string;
+  args: string[];
+}
+
+export interface BuildJob {
+  name: string;
+  command: Command;
+}
+
+export interface CompileJob extends BuildJob {
+  sourceFile: string;
+  objectFile: string;
+  dependencyFile: string;
+  precompiledHeader?: string;
+  stubFile?: string;
+}
+
+export interface BuildCommands {
+  precompileJob: CompileJob | undefined;
+  compileJobs: CompileJob[];
+  linkJob: BuildJob;
+  compileSignature: string;
+  linkSignature: string;
+  targetFile: string;
+  targetPath: string;
+}
+
+export interface BuildPlan {
+  precompileJob: BuildJob | undefined;
+  compileJobs: BuildJob[];
+  linkJob: BuildJob | undefined;
+  targetPath: string;
+}
+
+export interface BuildResult {
+  exitCode: number;
+  duration: number;
+  warnings: number;
+  errors: number;
+  commandLines: string[];
+}
+
+export interface BuildHistoryEntry {
+  folder: string;
+  timestamp: number;
+  mode: string;
+  duration: number;
+  warnings: number;
+  errors: number;
+  exitCode: number;
+  commandLine: string;
+}
+
+export interface JsonCompileCommand {
+  directory: string;
+  file: string;
+  arguments: string[];
+  output: string;
+}
+
 export class Task extends vscode.Task {
   override execution?: vscode.ProcessExecution;
 }
@@ -66,10 +132,107 @@ export enum OperatingSystems {
 export enum Architectures {
   x86 = 'x86',
   x64 = 'x64',
+  ARM = 'ARM',
   ARM64 = 'ARM64',
 }
 
+export enum OutputTypes {
+  executable = 'executable',
+  staticLibrary = 'staticLibrary',
+  sharedLibrary = 'sharedLibrary',
+}
+
+export interface BuildMode {
+  name: string;
+  optimization: string;
+  debugInfo: boolean;
+  defines: string[];
+  sanitizers: string[];
+  lto: boolean;
+}
+
+export interface Toolchain {
+  name: string;
+  prefix: string;
+  sysroot: string;
+  target: string;
+  emulator: string;
+  debuggerPath: string;
+}
+
+export interface PkgConfigFlags {
+  compilerArgs: string[];
+  linkerArgs: string[];
+}
+
+export interface CompilerSet {
+  compiler: string;
+  version: string;
+  cCompilerPath: string;
+  cppCompilerPath: string;
+  debuggerPath: string;
+}
+
+export interface CompilerCapabilities {
+  cVersion: string;
+  cppVersion: string;
+  cStandards: string[];
+  cppStandards: string[];
+  sanitizers: string[];
+  lto: boolean;
+  openmp: boolean;
+}
+
 export enum Builds {
   debug = 'Debug',
   release = 'Release',
 }
+
+export enum DiagnosticLevels {
+  error = 'error',
+  warning = 'warning',
+  note = 'note',
+}
+
+export interface DiagnosticRange {
+  file: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface DiagnosticFixIt {
+  range: DiagnosticRange;
+  replacement: string;
+}
+
+export interface DiagnosticRelatedLocation {
+  range: DiagnosticRange;
+  message: string;
+}
+
+export interface CompilerDiagnostic {
+  level: DiagnosticLevels;
+  message: string;
+  option: string | undefined;
+  range: DiagnosticRange | undefined;
+  related: DiagnosticRelatedLocation[];
+  fixIts: DiagnosticFixIt[];
+}
+
+export interface PreprocessedLocation {
+  line: number;
+  file: string;
+  sourceLine: number;
+}
+
+export interface PreprocessedDocument {
+  content: string;
+  locations: PreprocessedLocation[];
+}
+
+export interface AssemblyDocument {
+  content: string;
+  sourceLines: number[];
+}
@@ -1,12 +1,22 @@
+import { execFile } from 'child_process';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { extensionState } from '../extension';
 import { filesInDir, pathExists, readJsonFile } from './fileUtils';
-import { JsonLaunchConfig, JsonSettings, OperatingSystems } from './types';
+import {
+  BuildHistoryEntry,
+  Command,
+  JsonLaunchConfig,
+  JsonSettings,
+} from './types';
 
 const STATUS_BAR_ALIGN = vscode.StatusBarAlignment.Left;
 const STATUS_BAR_PRIORITY = 50;
+const BUILD_HISTORY_KEY = 'buildHistory';
+const MAX_BUILD_HISTORY_ENTRIES = 50;
+const MAX_OUTPUT_SIZE = 64 * 1024 * 1024;
+const MAX_ERROR_LINES = 5;
 
 export function disposeItem(disposableItem: vscode.Disposable | undefined) {
   disposableItem?.dispose();
@@ -54,6 +64,62 @@ export function getActivationState() {
   return false;
 }
 
+export function getBuildHistory(folder?: string) {
+  if (!extensionState) return [];
+
+  const buildHistory = extensionState.get<BuildHistoryEntry[]>(
+    BUILD_HISTORY_KEY,
+    [],
+  );
+
+  if (!folder) return buildHistory;
+
+  return buildHistory.filter((entry) => entry.folder === folder);
+}
+
+export function addBuildHistoryEntry(newEntry: BuildHistoryEntry) {
+  const folderEntries = getBuildHistory(newEntry.folder).slice(
+    0,
+    MAX_BUILD_HISTORY_ENTRIES - 1,
+  );
+  const otherEntries = getBuildHistory().filter(
+    (entry) => entry.folder !== newEntry.folder,
+  );
+
+  // Note: The newest entry comes first
+  return extensionState?.update(BUILD_HISTORY_KEY, [
+    newEntry,
+    ...folderEntries,
+    ...otherEntries,
+  ]);
+}
+
+export function clearBuildHistory() {
+  return extensionState?.update(BUILD_HISTORY_KEY, []);
+}
+
+export function waitForTaskExecution(taskExecution: vscode.TaskExecution) {
+  if (!vscode.tasks.taskExecutions.includes(taskExecution)) {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve) => {
+    const endTaskDisposable = vscode.tasks.onDidEndTask((e) => {
+      if (e.execution !== taskExecution) return;
+
+      endTaskDisposable.dispose();
+      resolve();
+    });
+  });
+}
+
+export function terminateTaskExecution(taskExecution: vscode.TaskExecution) {
+  const taskEnd = waitForTaskExecution(taskExecution);
+  taskExecution.terminate();
+
+  return taskEnd;
+}
+
 export function isCmakeProject() {
   let cmakeFileFound = false;
 
@@ -105,50 +171,49 @@ export function isCmakeProject() {
 }
 
 export function getProcessExecution(
-  operatingSystem: OperatingSystems,
-  isMsvcBuildTask: boolean,
-  commandLine: string,
+  command: Command,
   activeFolder: string,
+  env?: NodeJS.ProcessEnv,
 ) {
-  const options = {
+  const options: vscode.ProcessExecutionOptions = {
     cwd: activeFolder,
   };
 
-  if (operatingSystem === OperatingSystems.windows) {
-    return winProcessExecution(isMsvcBuildTask, commandLine, options);
-  } else {
-    return unixProcessExecution(commandLine, options);
+  if (env) {
+    options.env = env as { [key: string]: string };
   }
+
+  // Note: The arguments are passed to the process without a shell
+  return new vscode.ProcessExecution(command.program, command.args, options);
 }
 
-function winProcessExecution(
-  isMsvcBuildTask: boolean,
-  commandLine: string,
-  options: { cwd: string },
+export function getCommandOutput(
+  command: Command,
+  cwd: string,
+  errorTitle: string,
+  env?: NodeJS.ProcessEnv,
 ) {
-  const drive = process.env['SystemDrive'] ? process.env['SystemDrive'] : 'C:';
-  if (isMsvcBuildTask) {
-    const shellOptions: vscode.ShellExecutionOptions = {
-      executable: drive + '/Windows/System32/cmd.exe',
-      shellArgs: ['/d', '/c'],
-    };
-    return new vscode.ShellExecution(commandLine, shellOptions);
-  } else {
-    return new vscode.ProcessExecution(
-      drive + '/Windows/System32/cmd.exe',
-      ['/d', '/c', commandLine],
-      options,
-    );
-  }
-}
+  return new Promise<string | undefined>((resolve) => {
+    execFile(
+      command.program,
+      command.args,
+      { cwd: cwd, env: env, maxBuffer: MAX_OUTPUT_SIZE },
+      (err, stdout, stderr) => {
+        if (!err) {
+          resolve(stdout);
+          return;
+        }
 
-function unixProcessExecution(commandLine: string, options: { cwd: string }) {
-  const standard_shell = process.env['SHELL']
-    ? process.env['SHELL']
-    : '/bin/bash';
-  return new vscode.ProcessExecution(
-    standard_shell,
-    ['-c', commandLine],
-    options,
-  );
+        const errorLines = (stderr ? stderr : err.message)
+          .split(/\r?\n/)
+          .filter((line) => line.trim() !== '')
+          .slice(0, MAX_ERROR_LINES);
+
+        vscode.window.showErrorMessage(
+          `${errorTitle}: ${errorLines.join(' ')}`,
+        );
+        resolve(undefined);
+      },
+    );
+  });
 }